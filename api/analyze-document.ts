@@ -1,25 +1,35 @@
 /**
- * Vercel Function: Analyze document and extract metadata using Gemini AI
+ * Vercel Function: Analyze document and extract metadata using the configured LLM
  * Endpoint: POST /api/analyze-document
  *
  * Purpose: Extract document summary, style guide, key terms, and document type
  * This metadata is used for context-aware text enhancement
+ *
+ * Responses are cached by model, prompt version and document content;
+ * bypassCache skips the cached response (the new one replaces it)
  */
 
-import * as process from 'node:process';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { generateText } from 'ai';
 import { z } from 'zod';
+import { resolveModel } from './utils/llm-provider';
+import { createPromptPlaceholders, replaceOpaqueValues } from './utils/prompt-placeholders';
+import { createCacheKey, getCachedResponse, setCachedResponse } from './utils/response-cache';
+import {
+  API_ERROR_CODES,
+  generateValidatedObject,
+  InvalidModelOutputError,
+} from './utils/structured-output';
 
 // ========== Request/Response Schemas ==========
 
 const requestSchema = z.object({
   fullDocumentHtml: z.string().min(1, 'Full document HTML is required'),
   documentName: z.string().optional(),
+  bypassCache: z.boolean().optional(),
 });
 
-const responseSchema = z.object({
+// Schema the model output is generated against
+const metadataSchema = z.object({
   summary: z.string(),
   styleGuide: z.object({
     tone: z.string(),
@@ -30,7 +40,11 @@ const responseSchema = z.object({
   }),
   keyTerms: z.array(z.string()),
   documentType: z.string(),
+});
+
+const responseSchema = metadataSchema.extend({
   model: z.string(),
+  cached: z.boolean(), // Served from the response cache
 });
 
 type AnalyzeRequest = z.infer<typeof requestSchema>;
@@ -38,6 +52,11 @@ type AnalyzeResponse = z.infer<typeof responseSchema>;
 
 // ========== System Prompt ==========
 
+/** Bump whenever the prompts change, so responses cached for the old prompts aren't reused */
+const PROMPT_VERSION = 1;
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
 const SYSTEM_PROMPT = `You are a professional technical writing analyst. Your role is to analyze documents and extract metadata that will help maintain consistency in future AI-powered text enhancements.
 
 Core Responsibilities:
@@ -79,23 +98,7 @@ Provide a JSON response with:
 
 3. **keyTerms**: List 10-20 important technical terms, product names, acronyms, or specialized vocabulary that should be preserved exactly in enhancements
 
-4. **documentType**: Categorize the document (e.g., "API documentation", "user guide", "technical specification", "tutorial", "reference manual", "troubleshooting guide", "release notes")
-
-**CRITICAL**: Return ONLY a valid JSON object with this EXACT structure:
-{
-  "summary": "string",
-  "styleGuide": {
-    "tone": "string",
-    "vocabulary": ["term1", "term2", ...],
-    "perspective": "string",
-    "technicalLevel": "string",
-    "commonPatterns": ["pattern1", "pattern2", ...]
-  },
-  "keyTerms": ["term1", "term2", ...],
-  "documentType": "string"
-}
-
-Output ONLY the JSON object, nothing else.`;
+4. **documentType**: Categorize the document (e.g., "API documentation", "user guide", "technical specification", "tutorial", "reference manual", "troubleshooting guide", "release notes")`;
 }
 
 // ========== Handler ==========
@@ -111,26 +114,45 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!validation.success) {
     return res.status(400).json({
       error: 'Invalid request',
-      details: validation.error.errors,
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
     });
   }
 
-  const { fullDocumentHtml, documentName } = validation.data;
+  const { fullDocumentHtml, documentName, bypassCache } = validation.data;
 
   try {
     console.log(`Analyzing document: ${documentName || 'Untitled'}`);
     console.log(`Document length: ${fullDocumentHtml.length} characters`);
 
-    // Build analysis prompt
-    const userMessage = buildUserPrompt(fullDocumentHtml, documentName);
+    const { model, modelId, provider } = resolveModel('analyze');
 
-    const google = createGoogleGenerativeAI({
-      apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    const cacheKey = createCacheKey({
+      task: 'analyze',
+      provider,
+      modelId,
+      promptVersion: PROMPT_VERSION,
+      fullDocumentHtml,
+      documentName,
     });
+    if (!bypassCache) {
+      const cached = await getCachedResponse<AnalyzeResponse>(cacheKey);
+      if (cached) {
+        console.log('Returning cached analysis');
+        return res.status(200).json({ ...cached, cached: true });
+      }
+    }
+
+    // Build analysis prompt (embedded images as placeholders, nothing is restored from the answer)
+    const userMessage = buildUserPrompt(
+      replaceOpaqueValues(fullDocumentHtml, createPromptPlaceholders()),
+      documentName
+    );
 
-    // Generate metadata using Gemini
-    const { text } = await generateText({
-      model: google('gemini-2.5-flash'),
+    // Generate metadata against the schema (repaired and retried if invalid)
+    const { object, modelId: responseModelId } = await generateValidatedObject({
+      model,
+      schema: metadataSchema,
       messages: [
         {
           role: 'system',
@@ -144,48 +166,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       temperature: 0.2, // Low temperature for consistent, analytical output
     });
 
-    if (!text || text.trim().length === 0) {
-      return res.status(500).json({
-        error: 'No metadata generated by AI',
-      });
-    }
+    const result: AnalyzeResponse = {
+      ...object,
+      model: responseModelId || modelId,
+      cached: false,
+    };
+    await setCachedResponse(cacheKey, result, CACHE_TTL_MS);
 
-    // Parse JSON response from AI
-    let parsedResponse;
-    try {
-      // Extract JSON from markdown code blocks if present
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
-      const jsonText = jsonMatch ? jsonMatch[1] || jsonMatch[0] : text;
-      parsedResponse = JSON.parse(jsonText.trim());
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', text);
-      return res.status(500).json({
-        error: 'AI returned invalid JSON format',
-        details: text.substring(0, 200),
-      });
-    }
+    console.log(`Analysis complete. Document type: ${result.documentType}`);
+    console.log(`Summary: "${result.summary.substring(0, 100)}..."`);
 
-    // Validate response structure
-    const result = responseSchema.safeParse({
-      ...parsedResponse,
-      model: 'gemini-2.5-flash',
-    });
-
-    if (!result.success) {
-      return res.status(500).json({
-        error: 'AI response missing required fields',
-        details: result.error.errors,
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidModelOutputError) {
+      console.error('AI returned invalid metadata:', error.rawText);
+      return res.status(502).json({
+        error: 'AI returned invalid output',
+        code: API_ERROR_CODES.INVALID_MODEL_OUTPUT,
+        details: error.rawText?.substring(0, 200),
       });
     }
 
-    console.log(`Analysis complete. Document type: ${result.data.documentType}`);
-    console.log(`Summary: "${result.data.summary.substring(0, 100)}..."`);
-
-    return res.status(200).json(result.data);
-  } catch (error) {
     console.error('Failed to analyze document:', error);
     return res.status(500).json({
       error: 'Failed to analyze document',
+      code: API_ERROR_CODES.MODEL_REQUEST_FAILED,
       details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
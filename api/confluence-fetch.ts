@@ -5,19 +5,31 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  type AuthScheme,
+  buildConfluenceHeaders,
+  buildContentApiUrl,
+  type DeploymentType,
+  extractPageId,
+  resolveSiteUrl,
+} from './utils/confluence';
+import { fetchAttachmentImages } from './utils/confluence-attachments';
+import { collectAttachmentImageFilenames, convertStorageToHtml } from './utils/confluence-macros';
 
 interface ConfluenceResponse {
   content: string; // HTML content (sanitized for Tiptap)
   title: string;
   version: number;
   lastModified: string;
+  embeddedImages: number; // Attachment images embedded as data URIs
+  failedImages: number; // Attachment images left as (authenticated) download links
 }
 
 /**
  * Sanitize Confluence HTML for Tiptap compatibility
  * - Removes script tags and unsafe attributes
  * - Preserves tables, lists, images, and formatting
- * - Converts Confluence-specific tags to standard HTML
+ * Runs after convertStorageToHtml, which has already mapped Confluence macros
  */
 function sanitizeConfluenceHtml(html: string): string {
   let sanitized = html;
@@ -26,50 +38,17 @@ function sanitizeConfluenceHtml(html: string): string {
   sanitized = sanitized.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
 
   // Remove event handlers and javascript: links
-  sanitized = sanitized.replace(/on\w+="[^"]*"/gi, '');
-  sanitized = sanitized.replace(/on\w+='[^']*'/gi, '');
+  // (handlers must start an attribute, so base64 image data ending in "...on=" is left alone)
+  sanitized = sanitized.replace(/\son\w+="[^"]*"/gi, '');
+  sanitized = sanitized.replace(/\son\w+='[^']*'/gi, '');
   sanitized = sanitized.replace(/javascript:[^"']*/gi, '');
 
-  // Convert Confluence storage format tags to standard HTML
-  // Confluence uses <ac:structured-macro> and other custom tags
-  // For now, we'll preserve them and let Tiptap handle or ignore them
-
   // Clean up excessive whitespace while preserving structure
   sanitized = sanitized.replace(/\n\s*\n\s*\n/g, '\n\n');
 
   return sanitized;
 }
 
-/**
- * Extract page ID from Confluence URL
- * Supports formats:
- * - https://domain.atlassian.net/wiki/spaces/SPACE/pages/123456/Page+Title
- * - https://domain.confluence.com/pages/123456
- */
-function extractPageId(url: string): string | null {
-  try {
-    // Match pattern: /pages/{pageId}/
-    const match = url.match(/\/pages\/(\d+)/);
-    return match ? match[1] : null;
-  } catch (error) {
-    console.error('Failed to extract page ID:', error);
-    return null;
-  }
-}
-
-/**
- * Extract base URL from Confluence URL
- */
-function extractBaseUrl(url: string): string | null {
-  try {
-    const urlObj = new URL(url);
-    return `${urlObj.protocol}//${urlObj.host}`;
-  } catch (error) {
-    console.error('Failed to extract base URL:', error);
-    return null;
-  }
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Allow both GET and POST requests
   if (req.method !== 'GET' && req.method !== 'POST') {
@@ -93,25 +72,45 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
-  // Extract base URL
-  const baseUrl = extractBaseUrl(confluenceUrl);
-  if (!baseUrl) {
+  // Get credentials and connection options from request body/headers (for user-specific auth)
+  // or fallback to environment
+  const fromRequest = (field: string, header: string, env?: string) =>
+    req.method === 'POST' ? req.body[field] : req.headers[header] || env;
+
+  const confluenceToken = fromRequest(
+    'confluenceToken',
+    'x-confluence-token',
+    process.env.CONFLUENCE_TOKEN
+  );
+  const confluenceEmail = fromRequest(
+    'confluenceEmail',
+    'x-confluence-email',
+    process.env.CONFLUENCE_EMAIL
+  );
+  const deploymentType: DeploymentType | undefined = fromRequest(
+    'deploymentType',
+    'x-confluence-deployment-type',
+    process.env.CONFLUENCE_DEPLOYMENT_TYPE
+  );
+  const contextPath: string | undefined = fromRequest(
+    'contextPath',
+    'x-confluence-context-path',
+    process.env.CONFLUENCE_CONTEXT_PATH
+  );
+  const authScheme: AuthScheme | undefined = fromRequest(
+    'authScheme',
+    'x-confluence-auth-scheme',
+    process.env.CONFLUENCE_AUTH_SCHEME
+  );
+
+  // Resolve site URL (origin + context path, e.g. https://domain.atlassian.net/wiki)
+  const siteUrl = resolveSiteUrl(confluenceUrl, { deploymentType, contextPath });
+  if (!siteUrl) {
     return res.status(400).json({
       error: 'Invalid Confluence URL format. Could not extract base URL.',
     });
   }
 
-  // Get credentials from request body/headers (for user-specific auth) or fallback to environment
-  const confluenceToken =
-    req.method === 'POST'
-      ? req.body.confluenceToken
-      : req.headers['x-confluence-token'] || process.env.CONFLUENCE_TOKEN;
-
-  const confluenceEmail =
-    req.method === 'POST'
-      ? req.body.confluenceEmail
-      : req.headers['x-confluence-email'] || process.env.CONFLUENCE_EMAIL;
-
   if (!confluenceToken) {
     return res.status(400).json({
       error: 'Confluence credentials not provided. Please configure them in Settings.',
@@ -120,20 +119,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     // Fetch page content from Confluence API
-    const apiUrl = `${baseUrl}/wiki/rest/api/content/${pageId}?expand=body.storage,version`;
-
-    // Create Basic Auth header
-    const auth = confluenceEmail
-      ? Buffer.from(`${confluenceEmail}:${confluenceToken}`).toString('base64')
-      : confluenceToken; // If no email, assume token is already formatted
+    const apiUrl = buildContentApiUrl(siteUrl, pageId, 'expand=body.storage,version');
 
+    const headers = buildConfluenceHeaders({ confluenceToken, confluenceEmail, authScheme });
     const response = await fetch(apiUrl, {
       method: 'GET',
-      headers: {
-        Authorization: `Basic ${auth}`,
-        Accept: 'application/json',
-        'Content-Type': 'application/json',
-      },
+      headers,
     });
 
     if (!response.ok) {
@@ -159,15 +150,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const data = await response.json();
 
-    // Extract relevant data and sanitize HTML
+    // Extract relevant data, convert macros to editor nodes and sanitize HTML
     const rawHtml = data.body?.storage?.value || '';
-    const sanitizedHtml = sanitizeConfluenceHtml(rawHtml);
+    const attachmentImages = await fetchAttachmentImages(
+      siteUrl,
+      pageId,
+      collectAttachmentImageFilenames(rawHtml),
+      headers
+    );
+    const html = convertStorageToHtml(rawHtml, {
+      siteUrl,
+      pageId,
+      embeddedImages: attachmentImages.images,
+    });
+    const sanitizedHtml = sanitizeConfluenceHtml(html);
 
     const result: ConfluenceResponse = {
       content: sanitizedHtml,
       title: data.title || 'Untitled',
       version: data.version?.number || 1,
       lastModified: data.version?.when || new Date().toISOString(),
+      embeddedImages: attachmentImages.images.size,
+      failedImages: attachmentImages.failed,
     };
 
     return res.status(200).json(result);
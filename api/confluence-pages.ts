@@ -0,0 +1,262 @@
+/**
+ * Vercel Function: List the pages of a Confluence space or page tree
+ * Endpoint: POST /api/confluence-pages
+ *
+ * Accepts a space URL (every page in the space) or a page URL (the page and
+ * all of its descendants). Pages are returned in tree order with their depth
+ * so the client can render them as an indented checklist.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import {
+  buildConfluenceHeaders,
+  buildContentApiUrl,
+  buildPageUrl,
+  buildRestApiUrl,
+  confluenceConnectionSchema,
+  type DeploymentType,
+  extractPageId,
+  extractSpaceKey,
+  resolveSiteUrl,
+} from './utils/confluence';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+const pagesRequestSchema = confluenceConnectionSchema.extend({
+  confluenceUrl: z.string().min(1),
+});
+
+/** Results per request (the Cloud API caps this at 100 or lower) */
+const PAGE_SIZE = 100;
+
+/** Stop listing after this many pages to keep the response and import manageable */
+const MAX_PAGES = 1000;
+
+interface ConfluencePageSummary {
+  id: string;
+  title: string;
+  url: string;
+  parentId: string | null;
+  depth: number; // 0 for top-level pages of the listing
+}
+
+interface PagesResponse {
+  scope: 'space' | 'page';
+  title: string; // Space key or root page title
+  pages: ConfluencePageSummary[];
+  truncated: boolean; // More than MAX_PAGES pages exist
+}
+
+// Subset of the content API's page representation used here
+interface ContentResult {
+  id: string;
+  title: string;
+  ancestors?: Array<{ id: string }>;
+  space?: { key: string };
+}
+
+interface SiteInfo {
+  siteUrl: string;
+  deploymentType: DeploymentType;
+}
+
+interface ContentListResponse {
+  results: ContentResult[];
+  size: number;
+  _links?: { next?: string };
+}
+
+/**
+ * Thrown when the Confluence API rejects a request, so the handler can forward the status
+ */
+class ConfluenceApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ConfluenceApiError';
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Validate request body
+  const validation = pagesRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
+    });
+  }
+
+  const { confluenceUrl, ...connection } = validation.data;
+
+  const siteUrl = resolveSiteUrl(confluenceUrl, connection);
+  const pageId = extractPageId(confluenceUrl);
+  const spaceKey = extractSpaceKey(confluenceUrl);
+  if (!siteUrl || (!pageId && !spaceKey)) {
+    return res.status(400).json({
+      error: 'Invalid Confluence URL format. Use a space URL or a page URL.',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+    });
+  }
+
+  const headers = buildConfluenceHeaders(connection);
+  const site: SiteInfo = { siteUrl, deploymentType: connection.deploymentType ?? 'cloud' };
+
+  try {
+    let result: PagesResponse;
+
+    if (pageId) {
+      // Page tree: the root page followed by all of its descendants
+      const root: ContentResult = await getJson(
+        buildContentApiUrl(siteUrl, pageId, 'expand=ancestors,space'),
+        headers
+      );
+      const rootDepth = root.ancestors?.length ?? 0;
+      const { results, truncated } = await listAll(
+        buildRestApiUrl(siteUrl, `content/${pageId}/descendant/page`, 'expand=ancestors,space'),
+        headers,
+        MAX_PAGES - 1
+      );
+
+      result = {
+        scope: 'page',
+        title: root.title,
+        pages: toTreeOrder([root, ...results], site, rootDepth),
+        truncated,
+      };
+    } else {
+      // Whole space
+      const key = spaceKey as string;
+      const { results, truncated } = await listAll(
+        buildRestApiUrl(
+          siteUrl,
+          'content',
+          `spaceKey=${encodeURIComponent(key)}&type=page&expand=ancestors,space`
+        ),
+        headers,
+        MAX_PAGES
+      );
+
+      result = {
+        scope: 'space',
+        title: key,
+        pages: toTreeOrder(results, site, 0),
+        truncated,
+      };
+    }
+
+    console.log(
+      `Listed ${result.pages.length} Confluence pages for ${result.scope} "${result.title}"`
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof ConfluenceApiError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    console.error('Failed to list Confluence pages:', error);
+    return res.status(500).json({
+      error: 'Failed to list Confluence pages',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+async function getJson<T>(url: string, headers: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { method: 'GET', headers });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Confluence API error:', response.status, errorText);
+
+    if (response.status === 401) {
+      throw new ConfluenceApiError(
+        401,
+        'Authentication failed. Check your Confluence credentials.'
+      );
+    }
+    if (response.status === 404) {
+      throw new ConfluenceApiError(404, 'Space or page not found. Check the Confluence URL.');
+    }
+    throw new ConfluenceApiError(response.status, `Confluence API error: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Follow the start/limit pagination of a content list endpoint
+ */
+async function listAll(
+  url: string,
+  headers: Record<string, string>,
+  maxResults: number
+): Promise<{ results: ContentResult[]; truncated: boolean }> {
+  const results: ContentResult[] = [];
+  let start = 0;
+
+  while (results.length < maxResults) {
+    const page: ContentListResponse = await getJson(
+      `${url}&limit=${PAGE_SIZE}&start=${start}`,
+      headers
+    );
+    results.push(...page.results);
+
+    if (!page._links?.next || page.size === 0) {
+      return { results, truncated: false };
+    }
+    start += page.size;
+  }
+
+  return { results: results.slice(0, maxResults), truncated: true };
+}
+
+/**
+ * Order pages depth-first (parents before children, siblings in API order)
+ * Pages whose parent is not in the listing are treated as roots.
+ */
+function toTreeOrder(
+  results: ContentResult[],
+  site: SiteInfo,
+  rootDepth: number
+): ConfluencePageSummary[] {
+  const ids = new Set(results.map((page) => page.id));
+  const children = new Map<string | null, ContentResult[]>();
+
+  for (const page of results) {
+    const parentId = lastAncestorId(page);
+    const key = parentId && ids.has(parentId) ? parentId : null;
+    children.set(key, [...(children.get(key) ?? []), page]);
+  }
+
+  const ordered: ConfluencePageSummary[] = [];
+  const visit = (parentKey: string | null) => {
+    for (const page of children.get(parentKey) ?? []) {
+      ordered.push({
+        id: page.id,
+        title: page.title,
+        url: buildPageUrl(site.siteUrl, site.deploymentType, page.space?.key ?? '', page.id),
+        parentId: lastAncestorId(page),
+        depth: Math.max((page.ancestors?.length ?? 0) - rootDepth, 0),
+      });
+      visit(page.id);
+    }
+  };
+  visit(null);
+
+  return ordered;
+}
+
+function lastAncestorId(page: ContentResult): string | null {
+  const ancestors = page.ancestors ?? [];
+  return ancestors.length > 0 ? ancestors[ancestors.length - 1].id : null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Vercel Function: Publish document content back to Confluence
+ * Endpoint: POST /api/confluence-publish
+ *
+ * Converts the Tiptap JSON to Confluence storage format and updates the page
+ * with a versioned PUT. The version the document was imported at is used for
+ * optimistic concurrency: if the page changed upstream since then, nothing is
+ * written and a VERSION_CONFLICT error is returned instead.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import {
+  buildConfluenceHeaders,
+  buildContentApiUrl,
+  confluenceConnectionSchema,
+  extractPageId,
+  resolveSiteUrl,
+  VERSION_CONFLICT,
+} from './utils/confluence';
+import { type TiptapNode, tiptapJsonToStorage } from './utils/confluence-storage';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+const publishRequestSchema = confluenceConnectionSchema.extend({
+  confluenceUrl: z.string().min(1),
+  content: z.looseObject({ type: z.literal('doc') }), // Tiptap JSON
+  version: z.number().int().positive(), // Page version the content is based on
+});
+
+interface PublishResponse {
+  version: number;
+  lastModified: string;
+  skippedImages: number;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Validate request body
+  const validation = publishRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
+    });
+  }
+
+  const { confluenceUrl, content, version, ...connection } = validation.data;
+
+  const pageId = extractPageId(confluenceUrl);
+  const siteUrl = resolveSiteUrl(confluenceUrl, connection);
+  if (!pageId || !siteUrl) {
+    return res.status(400).json({
+      error: 'Invalid Confluence URL format. Could not extract page ID.',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+    });
+  }
+
+  const headers = buildConfluenceHeaders(connection);
+
+  try {
+    // Check the current version before writing
+    const currentResponse = await fetch(buildContentApiUrl(siteUrl, pageId, 'expand=version'), {
+      method: 'GET',
+      headers,
+    });
+
+    if (!currentResponse.ok) {
+      return sendConfluenceError(res, currentResponse);
+    }
+
+    const current = await currentResponse.json();
+    const currentVersion: number = current.version?.number ?? 1;
+
+    if (currentVersion !== version) {
+      return res.status(409).json({
+        error: 'The page was changed in Confluence after it was imported',
+        code: VERSION_CONFLICT,
+        details: `Document is based on version ${version}, Confluence has version ${currentVersion}`,
+      });
+    }
+
+    const { storage, skippedImages } = tiptapJsonToStorage(content as TiptapNode);
+
+    const updateResponse = await fetch(buildContentApiUrl(siteUrl, pageId), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({
+        id: pageId,
+        type: current.type || 'page',
+        title: current.title,
+        version: { number: version + 1 },
+        body: {
+          storage: {
+            value: storage,
+            representation: 'storage',
+          },
+        },
+      }),
+    });
+
+    // Confluence rejects the PUT with 409 if someone saved in between
+    if (updateResponse.status === 409) {
+      return res.status(409).json({
+        error: 'The page was changed in Confluence after it was imported',
+        code: VERSION_CONFLICT,
+      });
+    }
+
+    if (!updateResponse.ok) {
+      return sendConfluenceError(res, updateResponse);
+    }
+
+    const updated = await updateResponse.json();
+
+    const result: PublishResponse = {
+      version: updated.version?.number ?? version + 1,
+      lastModified: updated.version?.when || new Date().toISOString(),
+      skippedImages,
+    };
+
+    console.log(`Published page ${pageId} as version ${result.version}`);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Failed to publish to Confluence:', error);
+    return res.status(500).json({
+      error: 'Failed to publish to Confluence',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Forward a failed Confluence API response as a readable error
+ */
+async function sendConfluenceError(res: VercelResponse, response: Response) {
+  const errorText = await response.text();
+  console.error('Confluence API error:', response.status, errorText);
+
+  if (response.status === 401) {
+    return res.status(401).json({
+      error: 'Authentication failed. Check your Confluence credentials.',
+    });
+  }
+
+  if (response.status === 403) {
+    return res.status(403).json({
+      error: 'You do not have permission to edit this page.',
+    });
+  }
+
+  if (response.status === 404) {
+    return res.status(404).json({
+      error: 'Page not found. Check the Confluence URL.',
+    });
+  }
+
+  return res.status(response.status).json({
+    error: `Confluence API error: ${response.statusText}`,
+    details: errorText.substring(0, 200),
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * Vercel Function: Shared document store
+ * Endpoint: /api/documents
+ *
+ * GET    → all documents, oldest first
+ * POST   → create a document (the server assigns id and timestamps)
+ * PUT    → replace all documents, history and versions (import)
+ * DELETE → remove all documents, history and versions (?scope=all is required)
+ *
+ * Requests need `Authorization: Bearer <DOCUMENT_STORE_TOKEN>` when that
+ * variable is set. DELETE wipes the store for everyone using it, so it is
+ * refused unless the token is set. See api/utils/document-store.ts for
+ * storage details.
+ */
+
+import * as process from 'node:process';
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import {
+  authorizeStoreRequest,
+  clearAll,
+  insertDocument,
+  listDocuments,
+  replaceAll,
+} from './utils/document-store';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+// Content and metadata are opaque to the server; only the fields it relies on are checked
+const documentInputSchema = z.looseObject({
+  name: z.string().min(1),
+  confluenceUrl: z.string(),
+  content: z.unknown(),
+});
+
+const storedDocumentSchema = documentInputSchema.extend({
+  id: z.string().min(1),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const storedHistorySchema = z.looseObject({
+  id: z.string().min(1),
+  documentId: z.string().min(1),
+  createdAt: z.string(),
+});
+
+const storedVersionSchema = z.looseObject({
+  id: z.string().min(1),
+  documentId: z.string().min(1),
+  reason: z.enum(['import', 'save', 'enhancement', 'refresh', 'restore']),
+  content: z.unknown(),
+  createdAt: z.string(),
+});
+
+const replaceRequestSchema = z
+  .object({
+    documents: z.array(storedDocumentSchema),
+    history: z.array(storedHistorySchema).default([]),
+    versions: z.array(storedVersionSchema).default([]),
+  })
+  .superRefine((data, ctx) => {
+    const documentIds = new Set(data.documents.map((doc) => doc.id));
+    for (const key of ['history', 'versions'] as const) {
+      data[key].forEach((record, index) => {
+        if (!documentIds.has(record.documentId)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Record references unknown document ${record.documentId}`,
+            path: [key, index, 'documentId'],
+          });
+        }
+      });
+    }
+  });
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(listDocuments());
+
+      case 'POST': {
+        const validation = documentInputSchema.safeParse(req.body);
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+            details: validation.error.issues,
+          });
+        }
+        return res.status(201).json(insertDocument(validation.data));
+      }
+
+      case 'PUT': {
+        const validation = replaceRequestSchema.safeParse(req.body);
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+            details: validation.error.issues,
+          });
+        }
+        const { documents, history, versions } = validation.data;
+        replaceAll(documents, history, versions);
+        return res.status(200).json({
+          documentsImported: documents.length,
+          historyImported: history.length,
+          versionsImported: versions.length,
+        });
+      }
+
+      case 'DELETE':
+        if (!process.env.DOCUMENT_STORE_TOKEN) {
+          return res.status(403).json({
+            error:
+              'Clearing the shared store requires DOCUMENT_STORE_TOKEN to be set on the server',
+          });
+        }
+        if (req.query.scope !== 'all') {
+          return res.status(400).json({
+            error: 'scope=all query parameter is required to clear the shared store',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+          });
+        }
+        clearAll();
+        return res.status(204).end();
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
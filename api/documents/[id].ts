@@ -0,0 +1,85 @@
+/**
+ * Vercel Function: A single document in the shared document store
+ * Endpoint: /api/documents/:id
+ *
+ * GET    → the document
+ * PATCH  → merge the given fields into the document; with baseUpdatedAt, only if the
+ *          document wasn't changed since (409 DOCUMENT_CONFLICT otherwise)
+ * DELETE → remove the document with its enhancement history and versions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import {
+  authorizeStoreRequest,
+  DOCUMENT_CONFLICT,
+  deleteDocument,
+  getDocument,
+  updateDocument,
+} from '../utils/document-store';
+import { API_ERROR_CODES } from '../utils/structured-output';
+
+// id and timestamps are managed by the server and ignored if present
+const updateRequestSchema = z.looseObject({
+  name: z.string().min(1).optional(),
+  confluenceUrl: z.string().optional(),
+  baseUpdatedAt: z.string().optional(), // updatedAt of the document the changes are based on
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  const id = String(req.query.id);
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const doc = getDocument(id);
+        if (!doc) {
+          return res.status(404).json({ error: 'Document not found' });
+        }
+        return res.status(200).json(doc);
+      }
+
+      case 'PATCH': {
+        const validation = updateRequestSchema.safeParse(req.body);
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+            details: validation.error.issues,
+          });
+        }
+        const { baseUpdatedAt, ...updates } = validation.data;
+        const existing = getDocument(id);
+        if (!existing) {
+          return res.status(404).json({ error: 'Document not found' });
+        }
+        // Someone else saved the document in between; their changes would be overwritten
+        if (baseUpdatedAt && existing.updatedAt !== baseUpdatedAt) {
+          return res.status(409).json({
+            error: 'The document was changed by someone else. Reload it to get their changes.',
+            code: DOCUMENT_CONFLICT,
+            details: `Changes are based on the document as of ${baseUpdatedAt}, it was updated at ${existing.updatedAt}`,
+          });
+        }
+        return res.status(200).json(updateDocument(id, updates));
+      }
+
+      case 'DELETE':
+        if (!deleteDocument(id)) {
+          return res.status(404).json({ error: 'Document not found' });
+        }
+        return res.status(204).end();
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
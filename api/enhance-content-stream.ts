@@ -0,0 +1,200 @@
+/**
+ * Vercel Function: Enhance selected text using the configured LLM (streaming)
+ * Endpoint: POST /api/enhance-content-stream
+ *
+ * Same "Marked Local Context" strategy as /api/enhance-content, but the model
+ * answers with raw HTML that is streamed back as newline-delimited JSON (NDJSON):
+ * - {"type": "delta", "text": "..."}        one per text chunk from the model
+ * - {"type": "done", "result": {...}}      final validated EnhanceResponse
+ * - {"type": "error", "error": "...", "code": "..."} if generation or validation fails
+ *
+ * The answer has already been shown by the time it is complete, so lost
+ * structure isn't retried here; it is returned as warnings in the result.
+ * Responses aren't cached either: every request reaches the model, so
+ * bypassCache has no effect.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { streamText } from 'ai';
+import { z } from 'zod';
+import { buildDocumentContext, getContextReport } from './utils/document-context';
+import {
+  buildSystemMessage,
+  buildUserPrompt,
+  cleanHtmlOutput,
+  contextReportSchema,
+  enhanceRequestSchema,
+} from './utils/enhance-prompt';
+import { resolveModel } from './utils/llm-provider';
+import {
+  createPromptPlaceholders,
+  getRestorableLength,
+  replaceOpaqueValues,
+  restoreOpaqueValues,
+} from './utils/prompt-placeholders';
+import { checkEnhancedStructure } from './utils/structure-check';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+// ========== Response Schema ==========
+
+const responseSchema = z.object({
+  action: z.literal('replace'),
+  newHtml: z.string().min(1),
+  model: z.string(),
+  warnings: z.array(z.string()).optional(), // Structure the answer lost, see utils/structure-check
+  context: contextReportSchema,
+});
+
+type EnhanceResponse = z.infer<typeof responseSchema>;
+
+type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: EnhanceResponse }
+  | { type: 'error'; error: string; code: string; details?: string };
+
+function writeEvent(res: VercelResponse, event: StreamEvent) {
+  res.write(`${JSON.stringify(event)}\n`);
+}
+
+// ========== Handler ==========
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Validate request body
+  const validation = enhanceRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
+    });
+  }
+
+  const { fullDocumentHtml, targetBlockHtml, instructions, documentName, metadata } =
+    validation.data;
+
+  console.log(`Streaming enhancement in: ${documentName || 'Untitled'}`);
+  console.log(`Target block HTML: "${targetBlockHtml.substring(0, 100)}..."`);
+
+  // Headers are sent before the model answers, so errors after this point
+  // are reported as stream events instead of HTTP status codes
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const abortController = new AbortController();
+  req.on('close', () => abortController.abort());
+
+  try {
+    const { model, modelId } = resolveModel('enhance');
+
+    // Embedded images are sent as placeholders and put back into the streamed answer
+    const placeholders = createPromptPlaceholders();
+    const targetHtml = replaceOpaqueValues(targetBlockHtml, placeholders);
+
+    // Full document, or an excerpt around the target when it's over the token budget
+    const context = buildDocumentContext(
+      replaceOpaqueValues(fullDocumentHtml, placeholders),
+      targetHtml
+    );
+    console.log(
+      `Context: ${context.strategy}, ~${context.estimatedTokens} of ~${context.documentTokens} document tokens`
+    );
+
+    // streamText reports provider errors through onError instead of throwing
+    let streamError: unknown;
+    const result = streamText({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: buildSystemMessage(context, documentName, metadata),
+        },
+        {
+          role: 'user',
+          content: buildUserPrompt(targetHtml, instructions, metadata, 'html'),
+        },
+      ],
+      temperature: 0.3, // Lower temperature for more consistent output
+      abortSignal: abortController.signal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+
+    // A placeholder can be split across chunks, so text is only forwarded
+    // (restored) up to the last placeholder that is complete
+    let text = '';
+    let forwarded = 0;
+    for await (const delta of result.textStream) {
+      text += delta;
+      const restorable = getRestorableLength(text);
+      if (restorable > forwarded) {
+        writeEvent(res, {
+          type: 'delta',
+          text: restoreOpaqueValues(text.slice(forwarded, restorable), placeholders),
+        });
+        forwarded = restorable;
+      }
+    }
+    if (forwarded < text.length) {
+      writeEvent(res, {
+        type: 'delta',
+        text: restoreOpaqueValues(text.slice(forwarded), placeholders),
+      });
+    }
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    // Validate the complete answer before offering it for Accept
+    const { modelId: responseModelId } = await result.response;
+    const newHtml = restoreOpaqueValues(cleanHtmlOutput(text), placeholders);
+    const warnings = checkEnhancedStructure(targetBlockHtml, newHtml, metadata?.keyTerms);
+    const validated = responseSchema.safeParse({
+      action: 'replace',
+      newHtml,
+      model: responseModelId || modelId,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      context: getContextReport(context),
+    });
+
+    if (!validated.success) {
+      writeEvent(res, {
+        type: 'error',
+        error: 'AI returned invalid output',
+        code: API_ERROR_CODES.INVALID_MODEL_OUTPUT,
+        details: text.substring(0, 200),
+      });
+      return res.end();
+    }
+
+    if (warnings.length > 0) {
+      console.warn(`Streamed enhancement lost structure: ${warnings.join('; ')}`);
+    }
+    console.log(`Streamed enhancement complete (${validated.data.newHtml.length} chars)`);
+
+    writeEvent(res, { type: 'done', result: validated.data });
+    return res.end();
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.log('Client closed the stream before completion');
+      return res.end();
+    }
+
+    console.error('Failed to stream enhancement:', error);
+    writeEvent(res, {
+      type: 'error',
+      error: 'Failed to enhance content',
+      code: API_ERROR_CODES.MODEL_REQUEST_FAILED,
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.end();
+  }
+}
@@ -1,129 +1,80 @@
 /**
- * Vercel Function: Enhance selected text using Gemini AI
+ * Vercel Function: Enhance selected text using the configured LLM
  * Endpoint: POST /api/enhance-content
  *
  * Strategy: "Marked Local Context" with HTML
- * - Sends full document HTML for global context (cacheable)
+ * - Sends full document HTML for global context (cacheable); documents over the
+ *   context budget are sent as outline plus the sections around the target
  * - Sends parent node HTML with <target> tags for precise selection
  * - AI can expand selection for grammatical completeness
  * - Preserves HTML structure (tables, lists, formatting)
+ * - Checks the answer kept the structure; retries once with feedback, then
+ *   returns whatever is still missing as warnings for review
+ * - Caches responses by model, prompt version, document context, target HTML,
+ *   instructions and metadata; bypassCache skips the cached response (the new
+ *   one replaces it)
+ * - With candidateStyles, generates one alternative per style (concise,
+ *   detailed, ...) in parallel; newHtml is then the first candidate
  */
 
-import * as process from 'node:process';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { generateText } from 'ai';
+import type { LanguageModel, ModelMessage } from 'ai';
 import { z } from 'zod';
-
-// ========== Request/Response Schemas ==========
-
-const documentMetadataSchema = z.object({
-  summary: z.string(),
-  styleGuide: z.object({
-    tone: z.string(),
-    vocabulary: z.array(z.string()),
-    perspective: z.string(),
-    technicalLevel: z.string(),
-    commonPatterns: z.array(z.string()),
-  }),
-  keyTerms: z.array(z.string()),
-  documentType: z.string(),
+import { buildDocumentContext, getContextReport } from './utils/document-context';
+import {
+  buildSystemMessage,
+  buildUserPrompt,
+  CANDIDATE_STYLES,
+  type CandidateStyle,
+  candidateStyleSchema,
+  contextReportSchema,
+  ENHANCE_PROMPT_VERSION,
+  enhanceRequestSchema,
+  withCandidateStyle,
+} from './utils/enhance-prompt';
+import { resolveModel } from './utils/llm-provider';
+import {
+  createPromptPlaceholders,
+  type PromptPlaceholders,
+  replaceOpaqueValues,
+  restoreOpaqueValues,
+} from './utils/prompt-placeholders';
+import { createCacheKey, getCachedResponse, setCachedResponse } from './utils/response-cache';
+import { buildStructureFeedback, checkEnhancedStructure } from './utils/structure-check';
+import {
+  API_ERROR_CODES,
+  generateValidatedObject,
+  InvalidModelOutputError,
+} from './utils/structured-output';
+
+// ========== Model Output / Response Schemas ==========
+
+// Schema the model output is generated against (snake_case, as described in the prompt)
+const modelOutputSchema = z.object({
+  action: z.literal('replace'),
+  new_html: z.string().min(1),
 });
 
-const requestSchema = z.object({
-  fullDocumentHtml: z.string().min(1, 'Full document HTML is required'),
-  targetBlockHtml: z.string().min(1, 'Target block HTML is required'),
-  instructions: z.string().optional(),
-  documentName: z.string().optional(),
-  metadata: documentMetadataSchema.optional(),
+const candidateSchema = z.object({
+  style: candidateStyleSchema,
+  newHtml: z.string(),
+  warnings: z.array(z.string()).optional(), // Structure the answer lost, see utils/structure-check
 });
 
 const responseSchema = z.object({
   action: z.literal('replace'),
   newHtml: z.string(),
   model: z.string(),
+  warnings: z.array(z.string()).optional(),
+  context: contextReportSchema,
+  cached: z.boolean(), // Served from the response cache
+  candidates: z.array(candidateSchema).optional(), // Only when candidateStyles were requested
 });
 
-type EnhanceRequest = z.infer<typeof requestSchema>;
 type EnhanceResponse = z.infer<typeof responseSchema>;
+type EnhanceCandidate = z.infer<typeof candidateSchema>;
 
-// ========== System Prompt ==========
-
-const SYSTEM_PROMPT = `You are a professional technical writing assistant. Your role is to enhance selected text while maintaining consistency with the full document.
-
-Core Principles:
-1. **Maintain Consistency**: Match the terminology, tone, and style of the full document
-2. **Context Awareness**: Consider what comes before and after the selection
-3. **Smart Expansion**: If the selected text is grammatically incomplete, expand to include necessary surrounding words
-4. **Preserve Intent**: Keep the original meaning while improving clarity and professionalism
-5. **Preserve Structure**: Maintain HTML structure and formatting (tables, lists, bold, italic, etc.)
-
-Enhancement Guidelines:
-- Improve clarity and conciseness
-- Fix grammar and punctuation
-- Use active voice when appropriate
-- Add specific details where vague
-- Maintain technical accuracy
-- **CRITICAL**: Preserve HTML tags and structure
-- Keep table formatting with <table>, <tr>, <td>, <th> tags
-- Keep list formatting with <ul>, <ol>, <li> tags
-- Keep text formatting like <strong>, <em>, <code>
-- Keep images as <img> tags with src and alt attributes
-- Return ONLY valid HTML`;
-
-// ========== User Prompt Template ==========
-
-type DocumentMetadata = z.infer<typeof documentMetadataSchema>;
-
-function buildUserPrompt(
-  targetBlockHtml: string,
-  instructions?: string,
-  metadata?: DocumentMetadata
-): string {
-  const metadataSection = metadata
-    ? `
-**Document Context** (maintain consistency with these characteristics):
-- **Document Type**: ${metadata.documentType}
-- **Summary**: ${metadata.summary}
-- **Tone**: ${metadata.styleGuide.tone}
-- **Perspective**: ${metadata.styleGuide.perspective}
-- **Technical Level**: ${metadata.styleGuide.technicalLevel}
-- **Key Terms to Preserve**: ${metadata.keyTerms.slice(0, 10).join(', ')}${metadata.keyTerms.length > 10 ? ', ...' : ''}
-- **Common Patterns**: ${metadata.styleGuide.commonPatterns.slice(0, 3).join('; ')}
-
-**IMPORTANT**: When enhancing, maintain the document's ${metadata.styleGuide.tone} tone, use ${metadata.styleGuide.perspective} perspective, and preserve all key terms exactly as they appear.
-`
-    : '';
-
-  return `I need to enhance a specific part of my document.
-${metadataSection}
-**Context**: Below is an HTML block (paragraph, table cell, or list item) containing my selection. The text I selected is wrapped in <target> tags.
-
-**Current HTML Block**:
-${targetBlockHtml}
-
-**Task**:
-1. Analyze the content inside <target> tags
-2. If the selection is grammatically incomplete or breaks sentence flow, expand to include necessary surrounding words
-3. Enhance the content (improve clarity, grammar, professionalism)${metadata ? `\n4. **CRITICAL**: Match the document's ${metadata.styleGuide.tone} tone and ${metadata.styleGuide.perspective} perspective` : ''}
-5. **CRITICAL**: Preserve all HTML structure and tags
-${instructions ? `6. Follow this specific instruction: ${instructions}` : ''}
-
-**CRITICAL**: Return your response as a JSON object with this EXACT format:
-{
-  "action": "replace",
-  "new_html": "The enhanced HTML content (with all tags preserved)"
-}
-
-**Examples**:
-Input: <p>Revenue <target>went up</target> significantly.</p>
-Output: {"action": "replace", "new_html": "<p>Revenue <strong>increased</strong> significantly.</p>"}
-
-Input: <td><target>This data</target> is important</td>
-Output: {"action": "replace", "new_html": "<td><strong>This information</strong> is important</td>"}
-
-Output ONLY the JSON object, nothing else.`;
-}
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
 
 // ========== Handler ==========
 
@@ -134,16 +85,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Validate request body
-  const validation = requestSchema.safeParse(req.body);
+  const validation = enhanceRequestSchema.safeParse(req.body);
   if (!validation.success) {
     return res.status(400).json({
       error: 'Invalid request',
-      details: validation.error.errors,
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
     });
   }
 
-  const { fullDocumentHtml, targetBlockHtml, instructions, documentName, metadata } =
-    validation.data;
+  const {
+    fullDocumentHtml,
+    targetBlockHtml,
+    instructions,
+    documentName,
+    metadata,
+    bypassCache,
+    candidateStyles,
+  } = validation.data;
 
   try {
     console.log(`Enhancing content in: ${documentName || 'Untitled'}`);
@@ -152,79 +111,176 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.log(`Using metadata: ${metadata.documentType}, tone: ${metadata.styleGuide.tone}`);
     }
 
-    // Prepare system message with full document context
-    const systemMessage = `${SYSTEM_PROMPT}
+    const { model, modelId, provider } = resolveModel('enhance');
 
-**Full Document Context** (for reference only, do NOT modify this):
-${fullDocumentHtml}
+    // Embedded images are sent as placeholders and put back into the answer
+    const placeholders = createPromptPlaceholders();
 
-${documentName ? `\nDocument Name: "${documentName}"` : ''}`;
+    const documentHtml = replaceOpaqueValues(fullDocumentHtml, placeholders);
+    const targetHtml = replaceOpaqueValues(targetBlockHtml, placeholders);
 
-    // Build user message with marked selection and metadata
-    const userMessage = buildUserPrompt(targetBlockHtml, instructions, metadata);
+    // Full document, or an excerpt around the target when it's over the token budget
+    const context = buildDocumentContext(documentHtml, targetHtml);
 
-    const google = createGoogleGenerativeAI({
-      apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-    });
-    // Generate enhanced text using Gemini
-    const { text } = await generateText({
-      model: google('gemini-2.5-flash'),
-      messages: [
-        {
-          role: 'system',
-          content: systemMessage,
-        },
-        {
-          role: 'user',
-          content: userMessage,
-        },
-      ],
-      temperature: 0.3, // Lower temperature for more consistent output
-    });
-
-    if (!text || text.trim().length === 0) {
-      return res.status(500).json({
-        error: 'No content generated by AI',
-      });
-    }
-
-    // Parse JSON response from AI
-    let parsedResponse;
-    try {
-      // Extract JSON from markdown code blocks if present
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
-      const jsonText = jsonMatch ? jsonMatch[1] || jsonMatch[0] : text;
-      parsedResponse = JSON.parse(jsonText.trim());
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', text);
-      return res.status(500).json({
-        error: 'AI returned invalid JSON format',
-        details: text.substring(0, 200),
-      });
-    }
+    // Prepare system message with the document context
+    const systemMessage = buildSystemMessage(context, documentName, metadata);
 
-    // Validate response structure
-    const result = responseSchema.safeParse({
-      action: parsedResponse.action,
-      newHtml: parsedResponse.new_html,
-      model: 'gemini-2.0-flash-exp',
+    const cacheKey = createCacheKey({
+      task: 'enhance',
+      provider,
+      modelId,
+      promptVersion: ENHANCE_PROMPT_VERSION,
+      systemMessage, // Context and document name as sent; edits elsewhere in the document change it
+      targetBlockHtml,
+      instructions,
+      metadata,
+      candidateStyles,
     });
+    if (!bypassCache) {
+      const cached = await getCachedResponse<EnhanceResponse>(cacheKey);
+      if (cached) {
+        console.log('Returning cached enhancement');
+        return res.status(200).json({ ...cached, cached: true });
+      }
+    }
 
-    if (!result.success) {
-      return res.status(500).json({
-        error: 'AI response missing required fields',
-        details: result.error.errors,
+    console.log(
+      `Context: ${context.strategy}, ~${context.estimatedTokens} of ~${context.documentTokens} document tokens`
+    );
+
+    // One candidate per requested style, generated in parallel
+    const styles: CandidateStyle[] = candidateStyles ?? ['standard'];
+    const generated = await Promise.all(
+      styles.map((style) =>
+        generateCandidate({
+          model,
+          style,
+          messages: [
+            {
+              role: 'system',
+              content: systemMessage,
+            },
+            {
+              role: 'user',
+              content: buildUserPrompt(
+                targetHtml,
+                withCandidateStyle(instructions, style),
+                metadata
+              ),
+            },
+          ],
+          targetBlockHtml,
+          placeholders,
+          keyTerms: metadata?.keyTerms,
+        })
+      )
+    );
+
+    const [first] = generated;
+    const result: EnhanceResponse = {
+      action: 'replace',
+      newHtml: first.candidate.newHtml,
+      model: first.modelId || modelId,
+      warnings: first.candidate.warnings,
+      context: getContextReport(context),
+      cached: false,
+      candidates: candidateStyles ? generated.map((item) => item.candidate) : undefined,
+    };
+    await setCachedResponse(cacheKey, result, CACHE_TTL_MS);
+
+    console.log(`Enhanced successfully. New HTML: "${result.newHtml.substring(0, 100)}..."`);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidModelOutputError) {
+      console.error('AI returned invalid enhancement:', error.rawText);
+      return res.status(502).json({
+        error: 'AI returned invalid output',
+        code: API_ERROR_CODES.INVALID_MODEL_OUTPUT,
+        details: error.rawText?.substring(0, 200),
       });
     }
 
-    console.log(`Enhanced successfully. New HTML: "${result.data.newHtml.substring(0, 100)}..."`);
-
-    return res.status(200).json(result.data);
-  } catch (error) {
     console.error('Failed to enhance content:', error);
     return res.status(500).json({
       error: 'Failed to enhance content',
+      code: API_ERROR_CODES.MODEL_REQUEST_FAILED,
       details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 }
+
+// ========== Generation ==========
+
+interface GenerateCandidateOptions {
+  model: LanguageModel;
+  style: CandidateStyle;
+  messages: ModelMessage[];
+  targetBlockHtml: string;
+  placeholders: PromptPlaceholders;
+  keyTerms?: string[];
+}
+
+/**
+ * Generate one enhancement and check it kept the structure of the target
+ * When it didn't, retries once with the lost structure fed back, keeping
+ * whichever answer lost less.
+ */
+async function generateCandidate({
+  model,
+  style,
+  messages,
+  targetBlockHtml,
+  placeholders,
+  keyTerms,
+}: GenerateCandidateOptions): Promise<{ candidate: EnhanceCandidate; modelId?: string }> {
+  const { temperature } = CANDIDATE_STYLES[style];
+
+  // Generate enhanced HTML against the schema (repaired and retried if invalid)
+  const { object, modelId } = await generateValidatedObject({
+    model,
+    schema: modelOutputSchema,
+    messages,
+    temperature,
+  });
+
+  let answer = { newHtml: restoreOpaqueValues(object.new_html, placeholders), modelId };
+  let warnings = checkEnhancedStructure(targetBlockHtml, answer.newHtml, keyTerms);
+
+  if (warnings.length > 0) {
+    console.warn(`Enhancement (${style}) lost structure, retrying: ${warnings.join('; ')}`);
+
+    try {
+      const retry = await generateValidatedObject({
+        model,
+        schema: modelOutputSchema,
+        messages: [
+          ...messages,
+          { role: 'assistant', content: JSON.stringify(object) },
+          { role: 'user', content: buildStructureFeedback(warnings) },
+        ],
+        temperature,
+      });
+      const retryHtml = restoreOpaqueValues(retry.object.new_html, placeholders);
+      const retryWarnings = checkEnhancedStructure(targetBlockHtml, retryHtml, keyTerms);
+
+      if (retryWarnings.length < warnings.length) {
+        answer = { newHtml: retryHtml, modelId: retry.modelId };
+        warnings = retryWarnings;
+      }
+    } catch (error) {
+      // The first answer is still usable, so a failed retry only keeps its warnings
+      if (!(error instanceof InvalidModelOutputError)) throw error;
+      console.warn('Structure retry returned invalid output, keeping the first answer');
+    }
+  }
+
+  return {
+    candidate: {
+      style,
+      newHtml: answer.newHtml,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    },
+    modelId: answer.modelId,
+  };
+}
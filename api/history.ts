@@ -0,0 +1,58 @@
+/**
+ * Vercel Function: Enhancement history in the shared document store
+ * Endpoint: /api/history
+ *
+ * GET  → all history records, or a document's with ?documentId=
+ * POST → add a record (the server assigns id and createdAt)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { authorizeStoreRequest, insertHistory, listHistory } from './utils/document-store';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+const historyInputSchema = z.looseObject({
+  documentId: z.string().min(1),
+  instructions: z.string(),
+  originalContent: z.unknown(),
+  enhancedContent: z.unknown(),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const documentId =
+          typeof req.query.documentId === 'string' ? req.query.documentId : undefined;
+        return res.status(200).json(listHistory(documentId));
+      }
+
+      case 'POST': {
+        const validation = historyInputSchema.safeParse(req.body);
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+            details: validation.error.issues,
+          });
+        }
+        const record = insertHistory(validation.data);
+        if (!record) {
+          return res.status(404).json({ error: 'Document not found' });
+        }
+        return res.status(201).json(record);
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
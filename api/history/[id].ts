@@ -0,0 +1,28 @@
+/**
+ * Vercel Function: A single enhancement history record
+ * Endpoint: DELETE /api/history/:id
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeStoreRequest, deleteHistory } from '../utils/document-store';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!deleteHistory(String(req.query.id))) {
+      return res.status(404).json({ error: 'History record not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
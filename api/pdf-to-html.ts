@@ -1,19 +1,19 @@
 /**
- * Vercel Function: Convert PDF to HTML using Gemini AI
+ * Vercel Function: Convert PDF to HTML using the configured LLM
  * Endpoint: POST /api/pdf-to-html
  * Features:
  * - Converts PDF text to HTML
  * - Extracts embedded images as base64 data URIs
  * - Embeds images directly in HTML as <img> tags
- * - Uses Gemini for intelligent content conversion
+ * - Uses the configured LLM for intelligent content conversion (must accept PDF file input)
  */
 
-import { google } from '@ai-sdk/google';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { generateText } from 'ai';
 import { z } from 'zod';
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
 import sharp from 'sharp';
+import { resolveModel } from './utils/llm-provider';
 
 // ========== Request/Response Schemas ==========
 
@@ -328,9 +328,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Continue without images - don't fail the entire conversion
     }
 
-    // Step 2: Use Gemini to convert PDF to HTML
-    const { text } = await generateText({
-      model: google('gemini-2.5-flash'),
+    // Step 2: Use the configured model to convert PDF to HTML
+    const { model, modelId } = resolveModel('pdf');
+    const { text, response } = await generateText({
+      model,
       messages: [
         {
           role: 'user',
@@ -381,7 +382,7 @@ Document: ${fileName}`,
     const result: PdfToHtmlResponse = {
       html: htmlContent,
       imageCount,
-      model: 'gemini-2.5-flash',
+      model: response.modelId || modelId,
     };
 
     return res.status(200).json(result);
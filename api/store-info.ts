@@ -0,0 +1,28 @@
+/**
+ * Vercel Function: Shared document store usage
+ * Endpoint: GET /api/store-info
+ *
+ * Returns record counts and the database size, shown on the Settings page
+ * and used by the client to check the connection in server mode.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeStoreRequest, getStoreInfo } from './utils/document-store';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    return res.status(200).json(getStoreInfo());
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store unavailable',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Confluence attachment images → embedded data URIs
+ * Attachment downloads need the user's credentials, so images referencing
+ * attachments would render broken in the editor. They are resolved through the
+ * attachments API, downloaded and compressed here, then embedded as base64
+ * data URIs (the editor's Image extension is configured with allowBase64).
+ */
+
+import sharp from 'sharp';
+import { buildRestApiUrl } from './confluence';
+
+/** Longest side of an embedded image, in pixels */
+const MAX_IMAGE_DIMENSION = 1600;
+
+/** Attachments larger than this are not downloaded */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Total size of embedded data URIs, keeping the response under the function payload limit */
+const MAX_EMBEDDED_BYTES = 3 * 1024 * 1024;
+
+/** Number of attachments downloaded in parallel */
+const DOWNLOAD_CONCURRENCY = 4;
+
+// Formats sharp can't re-encode without losing something (vector, animation) are embedded as-is
+const PASSTHROUGH_TYPES = new Set(['image/svg+xml', 'image/gif']);
+
+export interface AttachmentImageResult {
+  images: Map<string, string>; // Attachment filename → data URI
+  failed: number; // Referenced images that could not be embedded
+}
+
+// Subset of the attachment representation used here
+interface AttachmentResult {
+  title: string;
+  extensions?: { mediaType?: string; fileSize?: number };
+  metadata?: { mediaType?: string };
+  _links?: { download?: string };
+}
+
+/**
+ * Download, compress and encode the given attachments of a page
+ * Failures are logged and counted; the caller falls back to the download URL.
+ */
+export async function fetchAttachmentImages(
+  siteUrl: string,
+  pageId: string,
+  filenames: string[],
+  headers: Record<string, string>
+): Promise<AttachmentImageResult> {
+  const images = new Map<string, string>();
+  if (filenames.length === 0) {
+    return { images, failed: 0 };
+  }
+
+  let attachments: Map<string, AttachmentResult>;
+  try {
+    attachments = await listAttachments(siteUrl, pageId, headers);
+  } catch (error) {
+    console.warn('Failed to list page attachments:', error);
+    return { images, failed: filenames.length };
+  }
+
+  const encoded = new Map<string, string>();
+  for (let i = 0; i < filenames.length; i += DOWNLOAD_CONCURRENCY) {
+    const batch = filenames.slice(i, i + DOWNLOAD_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (filename) => {
+        const attachment = attachments.get(filename);
+        if (!attachment) {
+          console.warn(`Attachment not found: ${filename}`);
+          return;
+        }
+        try {
+          encoded.set(filename, await downloadAsDataUri(siteUrl, attachment, headers));
+        } catch (error) {
+          console.warn(`Failed to embed attachment ${filename}:`, error);
+        }
+      })
+    );
+  }
+
+  // Apply the size budget in document order so earlier images win
+  let totalBytes = 0;
+  for (const filename of filenames) {
+    const dataUri = encoded.get(filename);
+    if (!dataUri) continue;
+    if (totalBytes + dataUri.length > MAX_EMBEDDED_BYTES) {
+      console.warn(`Embedded image budget exceeded, not embedding ${filename}`);
+      continue;
+    }
+    totalBytes += dataUri.length;
+    images.set(filename, dataUri);
+  }
+
+  return { images, failed: filenames.length - images.size };
+}
+
+/**
+ * All attachments of a page, keyed by filename
+ */
+async function listAttachments(
+  siteUrl: string,
+  pageId: string,
+  headers: Record<string, string>
+): Promise<Map<string, AttachmentResult>> {
+  const attachments = new Map<string, AttachmentResult>();
+  let start = 0;
+
+  while (true) {
+    const response = await fetch(
+      buildRestApiUrl(siteUrl, `content/${pageId}/child/attachment`, `limit=100&start=${start}`),
+      { method: 'GET', headers }
+    );
+    if (!response.ok) {
+      throw new Error(`Confluence API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: { results: AttachmentResult[]; size: number; _links?: { next?: string } } =
+      await response.json();
+    for (const attachment of data.results) {
+      attachments.set(attachment.title, attachment);
+    }
+
+    if (!data._links?.next || data.size === 0) {
+      return attachments;
+    }
+    start += data.size;
+  }
+}
+
+async function downloadAsDataUri(
+  siteUrl: string,
+  attachment: AttachmentResult,
+  headers: Record<string, string>
+): Promise<string> {
+  const downloadPath = attachment._links?.download;
+  if (!downloadPath) {
+    throw new Error('Attachment has no download link');
+  }
+  if ((attachment.extensions?.fileSize ?? 0) > MAX_ATTACHMENT_BYTES) {
+    throw new Error('Attachment is too large to embed');
+  }
+
+  // Download links are relative to the site URL (origin + context path)
+  const response = await fetch(`${siteUrl}${downloadPath}`, {
+    method: 'GET',
+    headers: { ...headers, Accept: '*/*' },
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const mediaType =
+    attachment.extensions?.mediaType ??
+    attachment.metadata?.mediaType ??
+    response.headers.get('content-type') ??
+    '';
+
+  if (!mediaType.startsWith('image/')) {
+    throw new Error(`Not an image: ${mediaType || 'unknown type'}`);
+  }
+
+  if (PASSTHROUGH_TYPES.has(mediaType)) {
+    return `data:${mediaType};base64,${buffer.toString('base64')}`;
+  }
+
+  // Screenshots dominate Confluence pages; WebP keeps transparency and is much smaller than PNG
+  const compressed = await sharp(buffer)
+    .rotate() // Apply EXIF orientation
+    .resize({
+      width: MAX_IMAGE_DIMENSION,
+      height: MAX_IMAGE_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  return `data:image/webp;base64,${compressed.toString('base64')}`;
+}
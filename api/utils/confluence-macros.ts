@@ -0,0 +1,241 @@
+/**
+ * Confluence storage format → Tiptap-compatible HTML
+ * Maps the common macros to the custom editor nodes in src/lib/confluence-nodes.ts:
+ * - code / noformat        → <pre><code class="language-…">
+ * - info / note / warning / tip → <div data-panel>
+ * - expand                 → <div data-expand>
+ * - status                 → <span data-status>
+ * - jira (single issue)    → <span data-jira-key>
+ * - attached / external images (<ac:image>) → <img data-attachment>, embedded as a
+ *   data URI when the attachment was downloaded (see confluence-attachments.ts)
+ * Everything else (toc, ac:link, task lists, unknown macros...) becomes a
+ * placeholder node carrying the original storage XML in data-storage, so it
+ * is written back unchanged on publish (see confluence-storage.ts).
+ */
+
+import { type HTMLElement, type Node, NodeType, parse } from 'node-html-parser';
+import { escapeXml } from './confluence';
+
+export interface StorageConversionOptions {
+  siteUrl: string; // Origin + context path (see resolveSiteUrl)
+  pageId: string;
+  embeddedImages?: Map<string, string>; // Attachment filename → data URI
+}
+
+const PANEL_MACROS = new Set(['info', 'note', 'warning', 'tip']);
+
+// Elements whose children are inline content, so macros inside them must stay inline
+const INLINE_CONTEXT_TAGS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'a',
+  'span',
+  'strong',
+  'b',
+  'em',
+  'i',
+  'u',
+  's',
+  'del',
+  'code',
+  'sub',
+  'sup',
+]);
+
+/**
+ * Convert a page body in storage format to HTML the editor understands
+ */
+export function convertStorageToHtml(storage: string, options: StorageConversionOptions): string {
+  return convertChildren(parseStorage(storage), options);
+}
+
+/**
+ * Filenames of the page's own attachments used as images, in document order
+ */
+export function collectAttachmentImageFilenames(storage: string): string[] {
+  const filenames = new Set<string>();
+
+  const visit = (element: HTMLElement) => {
+    for (const child of element.childNodes) {
+      if (child.nodeType !== NodeType.ELEMENT_NODE) continue;
+      const childElement = child as HTMLElement;
+
+      const filename =
+        childElement.rawTagName === 'ac:image' && getAttachmentFilename(childElement);
+      if (filename) {
+        filenames.add(filename);
+      } else {
+        visit(childElement);
+      }
+    }
+  };
+  visit(parseStorage(storage));
+
+  return [...filenames];
+}
+
+function parseStorage(storage: string): HTMLElement {
+  // Inline CDATA sections (code macro bodies) as escaped text before parsing
+  const withoutCdata = storage.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) =>
+    escapeXml(text)
+  );
+
+  return parse(withoutCdata, {
+    lowerCaseTagName: false,
+    comment: false,
+  });
+}
+
+function convertChildren(element: HTMLElement, options: StorageConversionOptions): string {
+  return element.childNodes.map((child) => convertNode(child, options)).join('');
+}
+
+function convertNode(node: Node, options: StorageConversionOptions): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.rawText;
+  }
+  if (node.nodeType !== NodeType.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.rawTagName;
+
+  if (tag === 'ac:structured-macro' || tag === 'ac:macro') {
+    return convertMacro(element, options);
+  }
+  if (tag === 'ac:image') {
+    return convertImage(element, options);
+  }
+  if (tag === 'ac:placeholder') {
+    return '';
+  }
+  if (tag.includes(':')) {
+    return preserveStorage(element, tag, describeElement(element));
+  }
+
+  if (element.isVoidElement) {
+    return `<${tag}${element.rawAttrs ? ` ${element.rawAttrs}` : ''} />`;
+  }
+  return `<${tag}${element.rawAttrs ? ` ${element.rawAttrs}` : ''}>${convertChildren(element, options)}</${tag}>`;
+}
+
+function convertMacro(macro: HTMLElement, options: StorageConversionOptions): string {
+  const name = macro.getAttribute('ac:name') ?? '';
+  const title = getParameter(macro, 'title');
+  const body = findChild(macro, 'ac:rich-text-body');
+
+  if (name === 'code' || name === 'noformat') {
+    const language = getParameter(macro, 'language');
+    const code = findChild(macro, 'ac:plain-text-body')?.text ?? '';
+    const languageClass = language ? ` class="language-${escapeXml(language)}"` : '';
+    return `<pre><code${languageClass}>${escapeXml(code)}</code></pre>`;
+  }
+
+  if (PANEL_MACROS.has(name) && body) {
+    const titleAttr = title ? ` data-title="${escapeXml(title)}"` : '';
+    return `<div data-panel="${name}"${titleAttr}>${convertChildren(body, options)}</div>`;
+  }
+
+  if (name === 'expand' && body) {
+    const titleAttr = title ? ` data-title="${escapeXml(title)}"` : '';
+    return `<div data-expand=""${titleAttr}>${convertChildren(body, options)}</div>`;
+  }
+
+  if (name === 'status') {
+    const colour = getParameter(macro, 'colour') ?? 'Grey';
+    const statusTitle = title ?? '';
+    return `<span data-status="" data-colour="${escapeXml(colour)}" data-title="${escapeXml(statusTitle)}">${escapeXml(statusTitle)}</span>`;
+  }
+
+  const issueKey = getParameter(macro, 'key');
+  if (name === 'jira' && issueKey) {
+    const server = getParameter(macro, 'server') ?? '';
+    const serverId = getParameter(macro, 'serverId') ?? '';
+    return `<span data-jira-key="${escapeXml(issueKey)}" data-jira-server="${escapeXml(server)}" data-jira-server-id="${escapeXml(serverId)}">${escapeXml(issueKey)}</span>`;
+  }
+
+  return preserveStorage(macro, name || 'macro', `${name || 'Unknown'} macro`);
+}
+
+/**
+ * <ac:image> with an attachment or external URL → <img>
+ */
+function convertImage(image: HTMLElement, options: StorageConversionOptions): string {
+  const alt = image.getAttribute('ac:alt') ?? image.getAttribute('ac:title') ?? '';
+  const width = image.getAttribute('ac:width');
+  const widthAttr = width ? ` width="${escapeXml(width)}"` : '';
+
+  const filename = getAttachmentFilename(image);
+  if (filename) {
+    // Fall back to the download URL (needs a logged-in browser) if the image wasn't embedded
+    const src =
+      options.embeddedImages?.get(filename) ??
+      `${options.siteUrl}/download/attachments/${options.pageId}/${encodeURIComponent(filename)}`;
+    return `<img src="${escapeXml(src)}" alt="${escapeXml(alt)}" data-attachment="${escapeXml(filename)}"${widthAttr} />`;
+  }
+
+  const url = findChild(image, 'ri:url')?.getAttribute('ri:value');
+  if (url) {
+    return `<img src="${escapeXml(url)}" alt="${escapeXml(alt)}"${widthAttr} />`;
+  }
+
+  return preserveStorage(image, 'image', 'Image');
+}
+
+/**
+ * Filename of an <ac:image> that shows an attachment of the page itself
+ * Attachments of other pages are referenced through ri:page and are kept as-is.
+ */
+function getAttachmentFilename(image: HTMLElement): string | null {
+  const attachment = findChild(image, 'ri:attachment');
+  if (!attachment || findChild(attachment, 'ri:page')) return null;
+  return attachment.getAttribute('ri:filename') || null;
+}
+
+/**
+ * Keep an element the editor can't represent as an opaque placeholder node
+ */
+function preserveStorage(element: HTMLElement, name: string, label: string): string {
+  const inline = INLINE_CONTEXT_TAGS.has(element.parentNode?.rawTagName ?? '');
+  const tag = inline ? 'span' : 'div';
+  return `<${tag} data-confluence-macro="${escapeXml(name)}" data-label="${escapeXml(label)}" data-storage="${escapeXml(element.toString())}">${escapeXml(label)}</${tag}>`;
+}
+
+/**
+ * Human-readable label for a preserved ac:/ri: element
+ */
+function describeElement(element: HTMLElement): string {
+  if (element.rawTagName === 'ac:link') {
+    const linkText = findChild(element, 'ac:plain-text-link-body')?.text;
+    const page = findChild(element, 'ri:page')?.getAttribute('ri:content-title');
+    const attachment = findChild(element, 'ri:attachment')?.getAttribute('ri:filename');
+    return linkText || page || attachment || 'Link';
+  }
+  if (element.rawTagName === 'ac:emoticon') {
+    return element.getAttribute('ac:emoji-fallback') ?? element.getAttribute('ac:name') ?? '';
+  }
+  return element.rawTagName.replace(/^(ac|ri):/, '');
+}
+
+function findChild(element: HTMLElement, tag: string): HTMLElement | undefined {
+  return element.childNodes.find(
+    (child): child is HTMLElement =>
+      child.nodeType === NodeType.ELEMENT_NODE && (child as HTMLElement).rawTagName === tag
+  );
+}
+
+function getParameter(macro: HTMLElement, name: string): string | undefined {
+  const parameter = macro.childNodes.find(
+    (child): child is HTMLElement =>
+      child.nodeType === NodeType.ELEMENT_NODE &&
+      (child as HTMLElement).rawTagName === 'ac:parameter' &&
+      (child as HTMLElement).getAttribute('ac:name') === name
+  );
+  return parameter?.text;
+}
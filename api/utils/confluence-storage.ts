@@ -0,0 +1,215 @@
+/**
+ * Tiptap JSON → Confluence storage format
+ * Storage format is strict XHTML with Confluence-specific elements (ac:*, ri:*),
+ * so it is serialized by hand instead of going through the editor's HTML output
+ * (which emits void tags like <br> that the content API rejects).
+ * Confluence macro nodes created on import (see confluence-macros.ts) are
+ * written back as the equivalent macros.
+ */
+
+import { escapeXml } from './confluence';
+
+export interface TiptapMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+export interface TiptapNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: TiptapNode[];
+  text?: string;
+  marks?: TiptapMark[];
+}
+
+export interface StorageConversionResult {
+  storage: string;
+  skippedImages: number; // Embedded (data URI) images, which the content API can't store inline
+}
+
+// Pending track-changes suggestions are published as if rejected:
+// suggested insertions are left out and suggested deletions are kept as plain text
+const SUGGESTION_INSERTION = 'suggestionInsertion';
+
+const MARK_TAGS: Record<string, string> = {
+  bold: 'strong',
+  italic: 'em',
+  strike: 's',
+  underline: 'u',
+  code: 'code',
+};
+
+/**
+ * Convert a Tiptap document to Confluence storage format
+ */
+export function tiptapJsonToStorage(doc: TiptapNode): StorageConversionResult {
+  const context = { skippedImages: 0 };
+  const storage = serializeChildren(doc, context);
+  return { storage, skippedImages: context.skippedImages };
+}
+
+interface SerializeContext {
+  skippedImages: number;
+}
+
+function serializeChildren(node: TiptapNode, context: SerializeContext): string {
+  return (node.content ?? []).map((child) => serializeNode(child, context)).join('');
+}
+
+function serializeNode(node: TiptapNode, context: SerializeContext): string {
+  if (isPendingInsertion(node)) {
+    return '';
+  }
+
+  const inner = () => serializeChildren(node, context);
+  const attrs = node.attrs ?? {};
+
+  switch (node.type) {
+    case 'text':
+      return serializeText(node);
+    case 'paragraph':
+      return `<p>${inner()}</p>`;
+    case 'heading': {
+      const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6);
+      return `<h${level}>${inner()}</h${level}>`;
+    }
+    case 'bulletList':
+      return `<ul>${inner()}</ul>`;
+    case 'orderedList': {
+      const start = Number(attrs.start);
+      return start > 1 ? `<ol start="${start}">${inner()}</ol>` : `<ol>${inner()}</ol>`;
+    }
+    case 'listItem':
+      return `<li>${inner()}</li>`;
+    case 'blockquote':
+      return `<blockquote>${inner()}</blockquote>`;
+    case 'codeBlock':
+      return serializeCodeBlock(node);
+    case 'horizontalRule':
+      return '<hr />';
+    case 'hardBreak':
+      return '<br />';
+    case 'table':
+      return `<table><tbody>${inner()}</tbody></table>`;
+    case 'tableRow':
+      return `<tr>${inner()}</tr>`;
+    case 'tableCell':
+    case 'tableHeader': {
+      const tag = node.type === 'tableHeader' ? 'th' : 'td';
+      return `<${tag}${serializeCellSpan(attrs)}>${inner()}</${tag}>`;
+    }
+    case 'image':
+      return serializeImage(node, context);
+    case 'panel':
+      return serializeMacro(
+        typeof attrs.panelType === 'string' ? attrs.panelType : 'info',
+        { title: attrs.title },
+        inner()
+      );
+    case 'expand':
+      return serializeMacro('expand', { title: attrs.title }, inner());
+    case 'status':
+      return serializeMacro('status', { colour: attrs.colour, title: attrs.title });
+    case 'jiraIssue':
+      return serializeMacro('jira', {
+        server: attrs.server,
+        serverId: attrs.serverId,
+        key: attrs.issueKey,
+      });
+    case 'confluenceMacro':
+    case 'confluenceInlineMacro':
+      // Opaque macros are written back exactly as they were imported
+      return typeof attrs.storage === 'string' ? attrs.storage : '';
+    default:
+      // Unknown nodes keep their content
+      return inner();
+  }
+}
+
+/**
+ * A node that is only a suggested insertion: marked text, a leaf block with
+ * the suggestion attribute, or a block made up entirely of those
+ */
+function isPendingInsertion(node: TiptapNode): boolean {
+  if (node.type === 'text' || node.type === 'hardBreak') {
+    return !!node.marks?.some((mark) => mark.type === SUGGESTION_INSERTION);
+  }
+  const suggestion = node.attrs?.suggestion as { type?: string } | null | undefined;
+  if (suggestion) {
+    return suggestion.type === SUGGESTION_INSERTION;
+  }
+  return !!node.content?.length && node.content.every(isPendingInsertion);
+}
+
+function serializeText(node: TiptapNode): string {
+  let html = escapeXml(node.text ?? '');
+
+  for (const mark of node.marks ?? []) {
+    const tag = MARK_TAGS[mark.type];
+    if (tag) {
+      html = `<${tag}>${html}</${tag}>`;
+    } else if (mark.type === 'link' && typeof mark.attrs?.href === 'string') {
+      html = `<a href="${escapeXml(mark.attrs.href)}">${html}</a>`;
+    }
+  }
+
+  return html;
+}
+
+/**
+ * Code blocks become the Confluence code macro
+ */
+function serializeCodeBlock(node: TiptapNode): string {
+  const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+  const language = typeof node.attrs?.language === 'string' ? node.attrs.language : '';
+
+  return [
+    '<ac:structured-macro ac:name="code">',
+    language ? `<ac:parameter ac:name="language">${escapeXml(language)}</ac:parameter>` : '',
+    // "]]>" can't appear inside CDATA, so split it across two sections
+    `<ac:plain-text-body><![CDATA[${code.replace(/]]>/g, ']]]]><![CDATA[>')}]]></ac:plain-text-body>`,
+    '</ac:structured-macro>',
+  ].join('');
+}
+
+function serializeCellSpan(attrs: Record<string, unknown>): string {
+  const colspan = Number(attrs.colspan);
+  const rowspan = Number(attrs.rowspan);
+  return `${colspan > 1 ? ` colspan="${colspan}"` : ''}${rowspan > 1 ? ` rowspan="${rowspan}"` : ''}`;
+}
+
+/**
+ * Structured macro with string parameters and an optional rich text body
+ */
+function serializeMacro(name: string, parameters: Record<string, unknown>, body?: string): string {
+  const parameterXml = Object.entries(parameters)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    .map(([key, value]) => `<ac:parameter ac:name="${key}">${escapeXml(value)}</ac:parameter>`)
+    .join('');
+  const bodyXml = body === undefined ? '' : `<ac:rich-text-body>${body}</ac:rich-text-body>`;
+
+  return `<ac:structured-macro ac:name="${escapeXml(name)}">${parameterXml}${bodyXml}</ac:structured-macro>`;
+}
+
+/**
+ * Attachment images go back to <ri:attachment>, other images with a URL become
+ * <ac:image> with <ri:url>; embedded data URIs can't be stored inline in
+ * storage format and are skipped
+ */
+function serializeImage(node: TiptapNode, context: SerializeContext): string {
+  const attrs = node.attrs ?? {};
+  const src = typeof attrs.src === 'string' ? attrs.src : '';
+  const alt = typeof attrs.alt === 'string' && attrs.alt ? ` ac:alt="${escapeXml(attrs.alt)}"` : '';
+  const width = Number(attrs.width) > 0 ? ` ac:width="${Number(attrs.width)}"` : '';
+
+  if (typeof attrs.attachment === 'string' && attrs.attachment) {
+    return `<p><ac:image${alt}${width}><ri:attachment ri:filename="${escapeXml(attrs.attachment)}" /></ac:image></p>`;
+  }
+
+  if (!/^https?:\/\//i.test(src)) {
+    context.skippedImages++;
+    return '';
+  }
+
+  return `<p><ac:image${alt}${width}><ri:url ri:value="${escapeXml(src)}" /></ac:image></p>`;
+}
@@ -0,0 +1,174 @@
+/**
+ * Shared helpers for calling the Confluence REST API
+ * Used by the fetch, page listing and publish functions
+ *
+ * Atlassian Cloud serves Confluence under /wiki and authenticates with
+ * email + API token (Basic). Server / Data Center instances are usually served
+ * from the root or a custom context path (e.g. /confluence) and use personal
+ * access tokens (Bearer). Handlers work with a "site URL" (origin + context
+ * path) so the same URL builders cover both.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Error code returned when a page changed in Confluence since it was imported
+ */
+export const VERSION_CONFLICT = 'VERSION_CONFLICT';
+
+export type DeploymentType = 'cloud' | 'server';
+export type AuthScheme = 'basic' | 'bearer';
+
+/**
+ * Credentials and connection options sent by the client with every Confluence request
+ * Options are optional so requests from before they existed keep working as Cloud.
+ */
+export const confluenceConnectionSchema = z.object({
+  confluenceToken: z.string().min(1),
+  confluenceEmail: z.string().optional(),
+  deploymentType: z.enum(['cloud', 'server']).optional(),
+  contextPath: z.string().optional(),
+  authScheme: z.enum(['basic', 'bearer']).optional(),
+});
+
+export type ConfluenceConnection = z.infer<typeof confluenceConnectionSchema>;
+
+/**
+ * Extract page ID from Confluence URL
+ * Supports formats:
+ * - https://domain.atlassian.net/wiki/spaces/SPACE/pages/123456/Page+Title
+ * - https://domain.confluence.com/pages/123456
+ * - https://confluence.example.com/pages/viewpage.action?pageId=123456
+ */
+export function extractPageId(url: string): string | null {
+  try {
+    // Match pattern: /pages/{pageId}/ or ?pageId={pageId}
+    const match = url.match(/\/pages\/(\d+)/) ?? url.match(/[?&]pageId=(\d+)/);
+    return match ? match[1] : null;
+  } catch (error) {
+    console.error('Failed to extract page ID:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract space key from a Confluence space URL
+ * Supports formats:
+ * - https://domain.atlassian.net/wiki/spaces/SPACE/overview
+ * - https://domain.atlassian.net/wiki/spaces/SPACE
+ * - https://confluence.example.com/display/SPACE
+ */
+export function extractSpaceKey(url: string): string | null {
+  try {
+    const match = new URL(url).pathname.match(/\/(?:spaces|display)\/([^/]+)/);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch (error) {
+    console.error('Failed to extract space key:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract base URL from Confluence URL
+ */
+export function extractBaseUrl(url: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    return `${urlObj.protocol}//${urlObj.host}`;
+  } catch (error) {
+    console.error('Failed to extract base URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Normalize a context path to "" or "/path" (no trailing slash)
+ * Defaults to /wiki for Cloud and the server root for Server / Data Center.
+ */
+export function normalizeContextPath(
+  contextPath: string | undefined,
+  deploymentType: DeploymentType = 'cloud'
+): string {
+  const path = contextPath ?? (deploymentType === 'cloud' ? '/wiki' : '');
+  const trimmed = path.trim().replace(/^\/+|\/+$/g, '');
+  return trimmed ? `/${trimmed}` : '';
+}
+
+/**
+ * Resolve the site URL (origin + context path) for a page or space URL
+ */
+export function resolveSiteUrl(
+  url: string,
+  connection: Pick<ConfluenceConnection, 'deploymentType' | 'contextPath'>
+): string | null {
+  const baseUrl = extractBaseUrl(url);
+  if (!baseUrl) return null;
+  return `${baseUrl}${normalizeContextPath(connection.contextPath, connection.deploymentType)}`;
+}
+
+/**
+ * Build a REST API URL, e.g. buildRestApiUrl(siteUrl, 'content', 'spaceKey=DOC')
+ */
+export function buildRestApiUrl(siteUrl: string, path: string, query = ''): string {
+  return `${siteUrl}/rest/api/${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Build the content API URL for a page
+ */
+export function buildContentApiUrl(siteUrl: string, pageId: string, query = ''): string {
+  return buildRestApiUrl(siteUrl, `content/${pageId}`, query);
+}
+
+/**
+ * Build the browser URL of a page (a format extractPageId understands)
+ */
+export function buildPageUrl(
+  siteUrl: string,
+  deploymentType: DeploymentType,
+  spaceKey: string,
+  pageId: string
+): string {
+  if (deploymentType === 'server') {
+    return `${siteUrl}/pages/viewpage.action?pageId=${pageId}`;
+  }
+  return `${siteUrl}/spaces/${encodeURIComponent(spaceKey)}/pages/${pageId}`;
+}
+
+/**
+ * Build request headers for the configured auth scheme
+ * - basic: email + API token (Cloud) or username + password (Server / DC)
+ * - bearer: personal access token (Server / DC)
+ */
+export function buildConfluenceHeaders(
+  connection: Pick<ConfluenceConnection, 'confluenceToken' | 'confluenceEmail' | 'authScheme'>
+): Record<string, string> {
+  const { confluenceToken, confluenceEmail, authScheme = 'basic' } = connection;
+
+  let authorization: string;
+  if (authScheme === 'bearer') {
+    authorization = `Bearer ${confluenceToken}`;
+  } else {
+    const auth = confluenceEmail
+      ? Buffer.from(`${confluenceEmail}:${confluenceToken}`).toString('base64')
+      : confluenceToken; // If no email, assume token is already formatted
+    authorization = `Basic ${auth}`;
+  }
+
+  return {
+    Authorization: authorization,
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+  };
+}
+
+/**
+ * Escape text for use in XML/HTML content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
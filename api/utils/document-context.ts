@@ -0,0 +1,269 @@
+/**
+ * Document context for enhancement prompts, kept within a token budget
+ * Short documents are sent in full. Longer ones (e.g. big Confluence pages)
+ * are sent as an excerpt instead: the heading outline of the whole document
+ * plus the sections nearest to the target block, as many as fit the budget.
+ *
+ * Configuration (environment variables):
+ * - ENHANCE_CONTEXT_TOKEN_BUDGET: estimated tokens of document context per request (default 32000)
+ */
+
+import * as process from 'node:process';
+import { htmlToText } from './structure-check';
+
+const DEFAULT_TOKEN_BUDGET = 32000;
+
+// Rough average for English text and HTML markup across tokenizers
+const CHARS_PER_TOKEN = 4;
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>/g;
+const HEADING_PATTERN = /^<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>$/i;
+const VOID_ELEMENTS = new Set([
+  'area',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'wbr',
+]);
+
+/**
+ * - full: the whole document is included
+ * - excerpt: outline plus the sections around the target, the document exceeded the budget
+ */
+export type ContextStrategy = 'full' | 'excerpt';
+
+export interface DocumentContext {
+  strategy: ContextStrategy;
+  html: string; // Whole document, or the included sections with markers where others were left out
+  outline: string[]; // Headings of the whole document (excerpt only), indented by level
+  estimatedTokens: number; // Estimated tokens of the context sent
+  documentTokens: number; // Estimated tokens of the whole document
+  budgetTokens: number;
+  sections?: { included: number; total: number }; // Excerpt only
+}
+
+/**
+ * What was sent as context, returned in enhancement responses for debugging
+ */
+export type ContextReport = Omit<DocumentContext, 'html' | 'outline'>;
+
+interface Section {
+  start: number; // Offset in the document HTML
+  blocks: string[];
+  heading?: { level: number; text: string };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function getContextTokenBudget(): number {
+  const value = Number(process.env.ENHANCE_CONTEXT_TOKEN_BUDGET?.trim());
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOKEN_BUDGET;
+}
+
+/**
+ * Build the context for enhancing targetHtml (with <target> tags) inside documentHtml
+ */
+export function buildDocumentContext(
+  documentHtml: string,
+  targetHtml: string,
+  budgetTokens = getContextTokenBudget()
+): DocumentContext {
+  const documentTokens = estimateTokens(documentHtml);
+  const sections = documentTokens > budgetTokens ? splitSections(documentHtml) : [];
+  // Without top-level elements to excerpt, the document goes in as it is
+  if (sections.length === 0) {
+    return {
+      strategy: 'full',
+      html: documentHtml,
+      outline: [],
+      estimatedTokens: documentTokens,
+      documentTokens,
+      budgetTokens,
+    };
+  }
+
+  const outline = sections.flatMap((section) =>
+    section.heading ? [`${'  '.repeat(section.heading.level - 1)}- ${section.heading.text}`] : []
+  );
+  // The outline is always sent, so it comes out of the budget first
+  const remaining = Math.max(0, budgetTokens - estimateTokens(outline.join('\n')));
+
+  const targetIndex = findTargetSection(documentHtml, sections, targetHtml);
+  const [first, last] = expandAround(
+    sections.map((section) => estimateTokens(section.blocks.join(''))),
+    targetIndex,
+    remaining
+  );
+
+  const parts: string[] = [];
+  if (first > 0) parts.push(omittedMarker(first, 'earlier'));
+  if (first === last && estimateTokens(sections[first].blocks.join('')) > remaining) {
+    // Even the target's own section is over budget, so only its blocks around the target go in
+    parts.push(excerptSection(sections[first], targetHtml, remaining));
+  } else {
+    for (let index = first; index <= last; index++) {
+      parts.push(...sections[index].blocks);
+    }
+  }
+  if (last < sections.length - 1) parts.push(omittedMarker(sections.length - 1 - last, 'later'));
+
+  const html = parts.join('\n');
+  return {
+    strategy: 'excerpt',
+    html,
+    outline,
+    estimatedTokens: estimateTokens(html) + estimateTokens(outline.join('\n')),
+    documentTokens,
+    budgetTokens,
+    sections: { included: last - first + 1, total: sections.length },
+  };
+}
+
+export function getContextReport({
+  html: _html,
+  outline: _outline,
+  ...report
+}: DocumentContext): ContextReport {
+  return report;
+}
+
+// ========== Sections ==========
+
+/**
+ * Split HTML into its top-level elements
+ * Tiptap serializes the document as a flat list of block elements, so
+ * tracking nesting depth over the tags is enough to find their boundaries.
+ */
+function splitTopLevelBlocks(html: string): { html: string; start: number }[] {
+  const blocks: { html: string; start: number }[] = [];
+  let depth = 0;
+  let blockStart = -1;
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [tag, closing, rawName, selfClosing] = match;
+    if (!rawName) continue; // Comment
+
+    const name = rawName.toLowerCase();
+    const index = match.index ?? 0;
+    if (depth === 0 && !closing) blockStart = index;
+
+    if (closing) depth = Math.max(0, depth - 1);
+    else if (!selfClosing && !VOID_ELEMENTS.has(name)) depth++;
+
+    if (depth === 0 && blockStart !== -1) {
+      const end = index + tag.length;
+      blocks.push({ html: html.slice(blockStart, end), start: blockStart });
+      blockStart = -1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Group top-level blocks into sections, each starting at a heading
+ * Blocks before the first heading form a section of their own.
+ */
+function splitSections(html: string): Section[] {
+  const sections: Section[] = [];
+
+  for (const block of splitTopLevelBlocks(html)) {
+    const heading = block.html.match(HEADING_PATTERN);
+    if (heading || sections.length === 0) {
+      sections.push({
+        start: block.start,
+        blocks: [],
+        heading: heading
+          ? { level: Number(heading[1]), text: htmlToText(heading[2]).trim() }
+          : undefined,
+      });
+    }
+    sections[sections.length - 1].blocks.push(block.html);
+  }
+
+  return sections;
+}
+
+/**
+ * Index of the section holding the target blocks
+ * Looks for the target HTML itself first, then for the start of its text.
+ */
+function findTargetSection(documentHtml: string, sections: Section[], targetHtml: string): number {
+  const offset = documentHtml.indexOf(stripTargetTags(targetHtml));
+  if (offset !== -1) {
+    // Sections are in document order, so the target is in the last one starting before it
+    const index = sections.findIndex((section) => section.start > offset);
+    return index === -1 ? sections.length - 1 : Math.max(0, index - 1);
+  }
+
+  const text = htmlToText(stripTargetTags(targetHtml)).trim().slice(0, 80);
+  const index = sections.findIndex((section) => htmlToText(section.blocks.join('')).includes(text));
+  return Math.max(0, index);
+}
+
+/**
+ * The blocks of a section nearest to the target, within the budget
+ */
+function excerptSection(section: Section, targetHtml: string, budgetTokens: number): string {
+  const target = stripTargetTags(targetHtml);
+  const text = htmlToText(target).trim().slice(0, 80);
+  const targetIndex = Math.max(
+    0,
+    section.blocks.findIndex(
+      (block) =>
+        target.includes(block) || block.includes(target) || htmlToText(block).includes(text)
+    )
+  );
+
+  const [first, last] = expandAround(section.blocks.map(estimateTokens), targetIndex, budgetTokens);
+  return [
+    ...(first > 0 ? [omittedMarker(first, 'earlier', 'block')] : []),
+    ...section.blocks.slice(first, last + 1),
+    ...(last < section.blocks.length - 1
+      ? [omittedMarker(section.blocks.length - 1 - last, 'later', 'block')]
+      : []),
+  ].join('\n');
+}
+
+/**
+ * Widen a range around index, nearest neighbours first, while the costs fit the budget
+ * The item at index is always included.
+ */
+function expandAround(costs: number[], index: number, budget: number): [number, number] {
+  let first = index;
+  let last = index;
+  let used = costs[index] ?? 0;
+
+  for (let distance = 1; first > 0 || last < costs.length - 1; distance++) {
+    let added = false;
+    for (const candidate of [index - distance, index + distance]) {
+      if (candidate < 0 || candidate >= costs.length) continue;
+      // Stop growing in a direction once a neighbour doesn't fit, so the range stays contiguous
+      if (candidate < index ? candidate !== first - 1 : candidate !== last + 1) continue;
+      if (used + costs[candidate] > budget) continue;
+      used += costs[candidate];
+      if (candidate < index) first = candidate;
+      else last = candidate;
+      added = true;
+    }
+    if (!added) break;
+  }
+
+  return [first, last];
+}
+
+function omittedMarker(count: number, position: 'earlier' | 'later', unit = 'section'): string {
+  return `<!-- ${count} ${position} ${unit}${count === 1 ? '' : 's'} omitted -->`;
+}
+
+function stripTargetTags(html: string): string {
+  return html.replace(/<\/?target>/g, '');
+}
@@ -0,0 +1,307 @@
+/**
+ * Server-side document store backed by SQLite
+ * Used by the /api/documents and /api/history routes so a team can share
+ * documents and enhancement history instead of keeping them per browser.
+ *
+ * Records are stored as JSON alongside the columns needed for lookups and
+ * ordering, so the schema doesn't have to follow every Document field.
+ * The database file lives at DOCUMENT_STORE_PATH (default ./data/doc-enhancer.db);
+ * this needs a persistent disk, so it is meant for self-hosted deployments.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, statSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import * as process from 'node:process';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import Database from 'better-sqlite3';
+
+// Shapes mirror Document and EnhancementRecord in src/lib/storage.ts
+export interface StoredDocument {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  [field: string]: unknown;
+}
+
+export interface StoredHistoryRecord {
+  id: string;
+  documentId: string;
+  createdAt: string;
+  [field: string]: unknown;
+}
+
+// New records, before the store assigns id and timestamps
+type DocumentInput = { name: string; [field: string]: unknown };
+type HistoryInput = { documentId: string; [field: string]: unknown };
+type VersionInput = HistoryInput;
+
+export interface StoredVersion {
+  id: string;
+  documentId: string;
+  createdAt: string;
+  [field: string]: unknown;
+}
+
+interface RecordRow {
+  data: string;
+}
+
+const DEFAULT_DATABASE_PATH = './data/doc-enhancer.db';
+
+/**
+ * Error code returned when a document changed in the store since the client read it
+ */
+export const DOCUMENT_CONFLICT = 'DOCUMENT_CONFLICT';
+
+let database: Database.Database | null = null;
+
+function getDatabase(): Database.Database {
+  if (database) return database;
+
+  const path = resolve(process.env.DOCUMENT_STORE_PATH || DEFAULT_DATABASE_PATH);
+  mkdirSync(dirname(path), { recursive: true });
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS documents (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS history (
+      id TEXT PRIMARY KEY,
+      document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS history_document_id ON history(document_id);
+    CREATE TABLE IF NOT EXISTS versions (
+      id TEXT PRIMARY KEY,
+      document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS versions_document_id ON versions(document_id);
+  `);
+
+  database = db;
+  return db;
+}
+
+// ========== Documents ==========
+
+export function listDocuments(): StoredDocument[] {
+  const rows = getDatabase()
+    .prepare<[], RecordRow>('SELECT data FROM documents ORDER BY created_at')
+    .all();
+  return rows.map((row) => JSON.parse(row.data));
+}
+
+export function getDocument(id: string): StoredDocument | null {
+  const row = getDatabase()
+    .prepare<[string], RecordRow>('SELECT data FROM documents WHERE id = ?')
+    .get(id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function insertDocument(doc: DocumentInput): StoredDocument {
+  const now = new Date().toISOString();
+  const newDoc: StoredDocument = {
+    ...doc,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeDocument(newDoc);
+  return newDoc;
+}
+
+export function updateDocument(
+  id: string,
+  updates: Record<string, unknown>
+): StoredDocument | null {
+  const existing = getDocument(id);
+  if (!existing) return null;
+
+  const updated: StoredDocument = {
+    ...existing,
+    ...updates,
+    id, // Identity and creation time can't be changed through updates
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+  writeDocument(updated);
+  return updated;
+}
+
+export function deleteDocument(id: string): boolean {
+  // History and version rows are removed by the ON DELETE CASCADE foreign keys
+  const result = getDatabase().prepare('DELETE FROM documents WHERE id = ?').run(id);
+  return result.changes > 0;
+}
+
+/**
+ * Replace all documents, history and versions (import)
+ */
+export function replaceAll(
+  documents: StoredDocument[],
+  history: StoredHistoryRecord[],
+  versions: StoredVersion[]
+): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM documents').run();
+    for (const doc of documents) writeDocument(doc);
+    for (const record of history) writeHistory(record);
+    for (const version of versions) writeVersion(version);
+  })();
+}
+
+export function clearAll(): void {
+  getDatabase().prepare('DELETE FROM documents').run();
+}
+
+function writeDocument(doc: StoredDocument): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO documents (id, created_at, updated_at, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`
+    )
+    .run(doc.id, doc.createdAt, doc.updatedAt, JSON.stringify(doc));
+}
+
+// ========== Enhancement History ==========
+
+export function listHistory(documentId?: string): StoredHistoryRecord[] {
+  const db = getDatabase();
+  const rows = documentId
+    ? db
+        .prepare<[string], RecordRow>(
+          'SELECT data FROM history WHERE document_id = ? ORDER BY created_at'
+        )
+        .all(documentId)
+    : db.prepare<[], RecordRow>('SELECT data FROM history ORDER BY created_at').all();
+  return rows.map((row) => JSON.parse(row.data));
+}
+
+/**
+ * Returns null when the referenced document doesn't exist
+ */
+export function insertHistory(record: HistoryInput): StoredHistoryRecord | null {
+  if (!getDocument(record.documentId)) return null;
+
+  const newRecord: StoredHistoryRecord = {
+    ...record,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  writeHistory(newRecord);
+  return newRecord;
+}
+
+export function deleteHistory(id: string): boolean {
+  const result = getDatabase().prepare('DELETE FROM history WHERE id = ?').run(id);
+  return result.changes > 0;
+}
+
+function writeHistory(record: StoredHistoryRecord): void {
+  getDatabase()
+    .prepare(
+      'INSERT OR REPLACE INTO history (id, document_id, created_at, data) VALUES (?, ?, ?, ?)'
+    )
+    .run(record.id, record.documentId, record.createdAt, JSON.stringify(record));
+}
+
+// ========== Versions ==========
+
+export function listVersions(documentId: string): StoredVersion[] {
+  const rows = getDatabase()
+    .prepare<[string], RecordRow>(
+      'SELECT data FROM versions WHERE document_id = ? ORDER BY created_at'
+    )
+    .all(documentId);
+  return rows.map((row) => JSON.parse(row.data));
+}
+
+/**
+ * Returns null when the referenced document doesn't exist
+ */
+export function insertVersion(version: VersionInput): StoredVersion | null {
+  if (!getDocument(version.documentId)) return null;
+
+  const newVersion: StoredVersion = {
+    ...version,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  writeVersion(newVersion);
+  return newVersion;
+}
+
+export function updateVersion(id: string, updates: Record<string, unknown>): StoredVersion | null {
+  const row = getDatabase()
+    .prepare<[string], RecordRow>('SELECT data FROM versions WHERE id = ?')
+    .get(id);
+  if (!row) return null;
+
+  const existing: StoredVersion = JSON.parse(row.data);
+  const updated: StoredVersion = {
+    ...existing,
+    ...updates,
+    id, // Snapshots are immutable apart from their labels
+    documentId: existing.documentId,
+    createdAt: existing.createdAt,
+  };
+  writeVersion(updated);
+  return updated;
+}
+
+function writeVersion(version: StoredVersion): void {
+  getDatabase()
+    .prepare(
+      'INSERT OR REPLACE INTO versions (id, document_id, created_at, data) VALUES (?, ?, ?, ?)'
+    )
+    .run(version.id, version.documentId, version.createdAt, JSON.stringify(version));
+}
+
+// ========== Utility ==========
+
+/**
+ * Record counts and database file size
+ */
+export function getStoreInfo(): {
+  documents: number;
+  history: number;
+  versions: number;
+  bytes: number;
+} {
+  const db = getDatabase();
+  const count = (table: 'documents' | 'history' | 'versions') =>
+    db.prepare<[], { count: number }>(`SELECT COUNT(*) AS count FROM ${table}`).get()?.count ?? 0;
+
+  return {
+    documents: count('documents'),
+    history: count('history'),
+    versions: count('versions'),
+    bytes: statSync(db.name).size,
+  };
+}
+
+/**
+ * Check the optional shared access token (DOCUMENT_STORE_TOKEN)
+ * Sends a 401 and returns false when the request is not authorized.
+ */
+export function authorizeStoreRequest(req: VercelRequest, res: VercelResponse): boolean {
+  const token = process.env.DOCUMENT_STORE_TOKEN;
+  if (!token || req.headers.authorization === `Bearer ${token}`) {
+    return true;
+  }
+
+  res.status(401).json({ error: 'Invalid or missing document store token' });
+  return false;
+}
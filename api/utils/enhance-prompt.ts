@@ -0,0 +1,234 @@
+/**
+ * Shared prompt building for the enhance-content endpoints
+ * Used by both the JSON endpoint (/api/enhance-content) and the
+ * streaming endpoint (/api/enhance-content-stream)
+ */
+
+import { z } from 'zod';
+import type { DocumentContext } from './document-context';
+
+// ========== Request Schemas ==========
+
+export const documentMetadataSchema = z.object({
+  summary: z.string(),
+  styleGuide: z.object({
+    tone: z.string(),
+    vocabulary: z.array(z.string()),
+    perspective: z.string(),
+    technicalLevel: z.string(),
+    commonPatterns: z.array(z.string()),
+  }),
+  keyTerms: z.array(z.string()),
+  documentType: z.string(),
+});
+
+/**
+ * Styles of alternative candidates, see CANDIDATE_STYLES
+ */
+export const candidateStyleSchema = z.enum(['standard', 'concise', 'detailed', 'friendly']);
+
+export const enhanceRequestSchema = z.object({
+  fullDocumentHtml: z.string().min(1, 'Full document HTML is required'),
+  targetBlockHtml: z.string().min(1, 'Target block HTML is required'),
+  instructions: z.string().optional(),
+  documentName: z.string().optional(),
+  metadata: documentMetadataSchema.optional(),
+  bypassCache: z.boolean().optional(), // Skip cached responses, e.g. when the user asks to try again
+  candidateStyles: z.array(candidateStyleSchema).min(1).max(4).optional(), // One candidate per style
+});
+
+export type DocumentMetadata = z.infer<typeof documentMetadataSchema>;
+export type EnhanceRequest = z.infer<typeof enhanceRequestSchema>;
+export type CandidateStyle = z.infer<typeof candidateStyleSchema>;
+
+// ========== Response Schemas ==========
+
+/** Context the request was enhanced with (see utils/document-context) */
+export const contextReportSchema = z.object({
+  strategy: z.enum(['full', 'excerpt']),
+  estimatedTokens: z.number(),
+  documentTokens: z.number(),
+  budgetTokens: z.number(),
+  sections: z.object({ included: z.number(), total: z.number() }).optional(),
+});
+
+/**
+ * How the model should format its answer
+ * - json: {"action": "replace", "new_html": "..."} object (non-streaming endpoint)
+ * - html: raw HTML only, so tokens can be streamed straight to the client
+ */
+export type EnhanceOutputFormat = 'json' | 'html';
+
+// ========== System Prompt ==========
+
+/** Bump whenever the prompts change, so responses cached for the old prompts aren't reused */
+export const ENHANCE_PROMPT_VERSION = 1;
+
+export const SYSTEM_PROMPT = `You are a professional technical writing assistant. Your role is to enhance selected text while maintaining consistency with the full document.
+
+Core Principles:
+1. **Maintain Consistency**: Match the terminology, tone, and style of the full document
+2. **Context Awareness**: Consider what comes before and after the selection
+3. **Smart Expansion**: If the selected text is grammatically incomplete, expand to include necessary surrounding words
+4. **Preserve Intent**: Keep the original meaning while improving clarity and professionalism
+5. **Preserve Structure**: Maintain HTML structure and formatting (tables, lists, bold, italic, etc.)
+
+Enhancement Guidelines:
+- Improve clarity and conciseness
+- Fix grammar and punctuation
+- Use active voice when appropriate
+- Add specific details where vague
+- Maintain technical accuracy
+- **CRITICAL**: Preserve HTML tags and structure
+- Keep table formatting with <table>, <tr>, <td>, <th> tags
+- Keep list formatting with <ul>, <ol>, <li> tags
+- Keep text formatting like <strong>, <em>, <code>
+- Keep images as <img> tags with src and alt attributes
+- Image sources and other large attribute values are shortened to placeholders like {{IMAGE_1a2b3c4d}}; copy them exactly as they are
+- Return ONLY valid HTML`;
+
+/**
+ * Build the system message with the document as reference context
+ * Documents over the context budget come as an excerpt, introduced by the
+ * outline (and the summary, when metadata is available) of the whole document.
+ */
+export function buildSystemMessage(
+  context: DocumentContext,
+  documentName?: string,
+  metadata?: DocumentMetadata
+): string {
+  const documentSection =
+    context.strategy === 'full'
+      ? `**Full Document Context** (for reference only, do NOT modify this):
+${context.html}`
+      : `The document is too long to include in full, so only the sections around the selection are given. Omitted parts are marked with HTML comments.
+${metadata ? `\n**Document Summary**: ${metadata.summary}\n` : ''}
+**Document Outline**:
+${context.outline.join('\n')}
+
+**Document Excerpt** (for reference only, do NOT modify this):
+${context.html}`;
+
+  return `${SYSTEM_PROMPT}
+
+${documentSection}
+
+${documentName ? `\nDocument Name: "${documentName}"` : ''}`;
+}
+
+// ========== Candidate Styles ==========
+
+interface CandidateStyleOptions {
+  instruction?: string;
+  temperature: number;
+}
+
+/**
+ * Instruction added for each candidate style, and the temperature it is generated with
+ * The standard style is the plain enhancement; the others vary it, with a
+ * little more temperature so the candidates don't all read the same.
+ */
+export const CANDIDATE_STYLES: Record<CandidateStyle, CandidateStyleOptions> = {
+  standard: { temperature: 0.3 },
+  concise: {
+    instruction: 'Make it as concise as possible without losing any information.',
+    temperature: 0.4,
+  },
+  detailed: {
+    instruction: 'Make it more detailed and explicit, adding specifics where the text is vague.',
+    temperature: 0.5,
+  },
+  friendly: {
+    instruction: 'Use a friendlier, more approachable tone while keeping it accurate.',
+    temperature: 0.6,
+  },
+};
+
+/**
+ * The user's instructions with the style's instruction appended
+ */
+export function withCandidateStyle(
+  instructions: string | undefined,
+  style: CandidateStyle
+): string | undefined {
+  const { instruction } = CANDIDATE_STYLES[style];
+  if (!instruction) return instructions;
+  return instructions ? `${instructions}\n${instruction}` : instruction;
+}
+
+// ========== User Prompt Template ==========
+
+const JSON_OUTPUT_INSTRUCTIONS = `**CRITICAL**: Return your response as a JSON object with this EXACT format:
+{
+  "action": "replace",
+  "new_html": "The enhanced HTML content (with all tags preserved)"
+}
+
+**Examples**:
+Input: <p>Revenue <target>went up</target> significantly.</p>
+Output: {"action": "replace", "new_html": "<p>Revenue <strong>increased</strong> significantly.</p>"}
+
+Input: <td><target>This data</target> is important</td>
+Output: {"action": "replace", "new_html": "<td><strong>This information</strong> is important</td>"}
+
+Output ONLY the JSON object, nothing else.`;
+
+const HTML_OUTPUT_INSTRUCTIONS = `**CRITICAL**: Return ONLY the enhanced HTML (every block given, with the <target> tags removed).
+Do NOT wrap it in JSON, markdown code fences, or add any explanation.
+
+**Examples**:
+Input: <p>Revenue <target>went up</target> significantly.</p>
+Output: <p>Revenue <strong>increased</strong> significantly.</p>
+
+Input: <td><target>This data</target> is important</td>
+Output: <td><strong>This information</strong> is important</td>`;
+
+export function buildUserPrompt(
+  targetBlockHtml: string,
+  instructions?: string,
+  metadata?: DocumentMetadata,
+  outputFormat: EnhanceOutputFormat = 'json'
+): string {
+  const metadataSection = metadata
+    ? `
+**Document Context** (maintain consistency with these characteristics):
+- **Document Type**: ${metadata.documentType}
+- **Summary**: ${metadata.summary}
+- **Tone**: ${metadata.styleGuide.tone}
+- **Perspective**: ${metadata.styleGuide.perspective}
+- **Technical Level**: ${metadata.styleGuide.technicalLevel}
+- **Key Terms to Preserve**: ${metadata.keyTerms.slice(0, 10).join(', ')}${metadata.keyTerms.length > 10 ? ', ...' : ''}
+- **Common Patterns**: ${metadata.styleGuide.commonPatterns.slice(0, 3).join('; ')}
+
+**IMPORTANT**: When enhancing, maintain the document's ${metadata.styleGuide.tone} tone, use ${metadata.styleGuide.perspective} perspective, and preserve all key terms exactly as they appear.
+`
+    : '';
+
+  return `I need to enhance a specific part of my document.
+${metadataSection}
+**Context**: Below is the HTML containing my selection: a single block (paragraph, table cell, or list item), or several consecutive blocks, a whole list or a whole table when the selection spans them. The text I selected is wrapped in <target> tags; the tags may start in one block and end in another.
+
+**Current HTML Block**:
+${targetBlockHtml}
+
+**Task**:
+1. Analyze the content inside <target> tags
+2. If the selection is grammatically incomplete or breaks sentence flow, expand to include necessary surrounding words
+3. Enhance the content (improve clarity, grammar, professionalism)${metadata ? `\n4. **CRITICAL**: Match the document's ${metadata.styleGuide.tone} tone and ${metadata.styleGuide.perspective} perspective` : ''}
+5. **CRITICAL**: Preserve all HTML structure and tags, and return all of the blocks given
+${instructions ? `6. Follow this specific instruction: ${instructions}` : ''}
+
+${outputFormat === 'json' ? JSON_OUTPUT_INSTRUCTIONS : HTML_OUTPUT_INSTRUCTIONS}`;
+}
+
+/**
+ * Clean raw HTML output from the model
+ * Strips markdown code fences the model sometimes adds despite instructions
+ */
+export function cleanHtmlOutput(text: string): string {
+  return text
+    .trim()
+    .replace(/^```(?:html)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+}
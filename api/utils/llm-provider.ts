@@ -0,0 +1,108 @@
+/**
+ * LLM provider resolution shared by all AI handlers
+ * Resolves provider + model from environment configuration
+ *
+ * Configuration (environment variables):
+ * - LLM_PROVIDER: gemini (default) | openai | anthropic | local
+ * - LLM_MODEL: model id for the selected provider (defaults per provider below)
+ * - LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL: per-task overrides (TASK = ANALYZE, ENHANCE, PDF)
+ *
+ * Provider credentials:
+ * - gemini: GOOGLE_GENERATIVE_AI_API_KEY
+ * - openai: OPENAI_API_KEY, optional OPENAI_BASE_URL for any OpenAI-compatible API
+ * - anthropic: ANTHROPIC_API_KEY
+ * - local: LOCAL_LLM_BASE_URL (defaults to Ollama), optional LOCAL_LLM_API_KEY
+ */
+
+import * as process from 'node:process';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+
+export type LlmProvider = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export type LlmTask = 'analyze' | 'enhance' | 'pdf';
+
+export interface ResolvedModel {
+  model: LanguageModel;
+  modelId: string; // Model id sent to the provider, echoed back in API responses
+  provider: LlmProvider;
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-5',
+  local: 'llama3.1',
+};
+
+const PROVIDERS = Object.keys(DEFAULT_MODELS) as LlmProvider[];
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function parseProvider(value: string): LlmProvider {
+  const normalized = value.toLowerCase();
+  // Accept "google" as an alias since that's the AI SDK package name
+  if (normalized === 'google') return 'gemini';
+  if (!PROVIDERS.includes(normalized as LlmProvider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${value}". Expected one of: ${PROVIDERS.join(', ')}`);
+  }
+  return normalized as LlmProvider;
+}
+
+function createModel(provider: LlmProvider, modelId: string): LanguageModel {
+  switch (provider) {
+    case 'gemini':
+      return createGoogleGenerativeAI({
+        apiKey: readEnv('GOOGLE_GENERATIVE_AI_API_KEY'),
+      })(modelId);
+
+    case 'openai':
+      return createOpenAICompatible({
+        name: 'openai',
+        baseURL: readEnv('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey: readEnv('OPENAI_API_KEY'),
+        supportsStructuredOutputs: true,
+      })(modelId);
+
+    case 'anthropic':
+      return createAnthropic({
+        apiKey: readEnv('ANTHROPIC_API_KEY'),
+      })(modelId);
+
+    case 'local':
+      return createOpenAICompatible({
+        name: 'local',
+        baseURL: readEnv('LOCAL_LLM_BASE_URL') || 'http://localhost:11434/v1',
+        apiKey: readEnv('LOCAL_LLM_API_KEY'),
+      })(modelId);
+  }
+}
+
+/**
+ * Resolve the language model to use for a task
+ * Task-specific variables win over the global LLM_PROVIDER / LLM_MODEL
+ */
+export function resolveModel(task: LlmTask): ResolvedModel {
+  const taskKey = task.toUpperCase();
+  const providerValue = readEnv(`LLM_${taskKey}_PROVIDER`) || readEnv('LLM_PROVIDER') || 'gemini';
+  const provider = parseProvider(providerValue);
+
+  // A global LLM_MODEL only applies when the task uses the global provider,
+  // otherwise a Gemini model id could be sent to Anthropic
+  const usesGlobalProvider = !readEnv(`LLM_${taskKey}_PROVIDER`);
+  const modelId =
+    readEnv(`LLM_${taskKey}_MODEL`) ||
+    (usesGlobalProvider ? readEnv('LLM_MODEL') : undefined) ||
+    DEFAULT_MODELS[provider];
+
+  return {
+    model: createModel(provider, modelId),
+    modelId,
+    provider,
+  };
+}
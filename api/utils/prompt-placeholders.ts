@@ -0,0 +1,78 @@
+/**
+ * Placeholders for large opaque attribute values in prompts
+ * Documents imported from PDFs or Confluence embed their images as base64
+ * data URIs, which can make up most of the HTML while telling the model
+ * nothing. Before HTML goes into a prompt those values are swapped for
+ * short placeholders such as {{IMAGE_1a2b3c4d}}, and the placeholders in the
+ * model's answer are swapped back, so the returned HTML keeps the originals.
+ *
+ * Placeholders are derived from a hash of the value, so the same image gets
+ * the same placeholder in every request (which keeps prompt caching working).
+ */
+
+import { createHash } from 'node:crypto';
+
+/** Attribute values without whitespace longer than this are treated as opaque */
+const MAX_ATTRIBUTE_LENGTH = 200;
+
+const ATTRIBUTE_PATTERN = /(\s[\w:.-]+\s*=\s*)(?:"([^"]*)"|'([^']*)')/g;
+const PLACEHOLDER_PATTERN = /\{\{(?:IMAGE|DATA)_[0-9a-f]{8}\}\}/g;
+
+/**
+ * Original values by placeholder, shared by all HTML of one request
+ */
+export type PromptPlaceholders = Map<string, string>;
+
+export function createPromptPlaceholders(): PromptPlaceholders {
+  return new Map();
+}
+
+/**
+ * Replace data URIs and other large opaque attribute values with placeholders
+ */
+export function replaceOpaqueValues(html: string, placeholders: PromptPlaceholders): string {
+  return html.replace(
+    ATTRIBUTE_PATTERN,
+    (attribute, prefix: string, double?: string, single?: string) => {
+      const value = double ?? single ?? '';
+      if (!isOpaque(value)) return attribute;
+
+      const placeholder = createPlaceholder(value);
+      placeholders.set(placeholder, value);
+      return `${prefix}"${placeholder}"`;
+    }
+  );
+}
+
+/**
+ * Put the original values back in place of the placeholders
+ * Placeholders the model made up are left as they are.
+ */
+export function restoreOpaqueValues(html: string, placeholders: PromptPlaceholders): string {
+  if (placeholders.size === 0) return html;
+  return html.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder) => placeholders.get(placeholder) ?? placeholder
+  );
+}
+
+/**
+ * Length of the prefix of streamed text that can be restored already
+ * Stops before a "{{" that isn't closed yet, since its placeholder may
+ * continue in the next chunk
+ */
+export function getRestorableLength(text: string): number {
+  const open = text.lastIndexOf('{{');
+  if (open !== -1 && text.indexOf('}}', open) === -1) return open;
+  // A trailing "{" may be the first half of the next "{{"
+  return text.endsWith('{') ? text.length - 1 : text.length;
+}
+
+function isOpaque(value: string): boolean {
+  return value.startsWith('data:') || (value.length > MAX_ATTRIBUTE_LENGTH && !/\s/.test(value));
+}
+
+function createPlaceholder(value: string): string {
+  const hash = createHash('sha256').update(value).digest('hex').slice(0, 8);
+  return value.startsWith('data:image/') ? `{{IMAGE_${hash}}}` : `{{DATA_${hash}}}`;
+}
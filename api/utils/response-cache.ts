@@ -0,0 +1,165 @@
+/**
+ * Cache for model responses, keyed on a hash of everything that shapes the answer
+ * Re-opening a document or repeating an enhancement on an unchanged block
+ * returns the stored response instead of calling the model again.
+ *
+ * Configuration (environment variables):
+ * - RESPONSE_CACHE: memory (default) | sqlite | off
+ * - RESPONSE_CACHE_PATH: database file of the sqlite backend (default ./data/response-cache.db)
+ *
+ * The memory backend only lives as long as the server (or serverless) instance;
+ * the sqlite backend needs a persistent disk, like the document store.
+ * A failing cache never fails a request: errors are logged and treated as misses.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import * as process from 'node:process';
+import Database from 'better-sqlite3';
+
+export interface CacheBackend {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+type CacheMode = 'memory' | 'sqlite' | 'off';
+
+const DEFAULT_DATABASE_PATH = './data/response-cache.db';
+
+/** Oldest entries are dropped from the memory backend beyond this */
+const MAX_MEMORY_ENTRIES = 500;
+
+// ========== Backends ==========
+
+export function createMemoryBackend(maxEntries = MAX_MEMORY_ENTRIES): CacheBackend {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      // Re-inserting moves the key to the end, so the first key is always the oldest
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export function createSqliteBackend(path: string): CacheBackend {
+  mkdirSync(dirname(path), { recursive: true });
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS response_cache (
+      key TEXT PRIMARY KEY,
+      expires_at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS response_cache_expires_at ON response_cache(expires_at);
+  `);
+
+  const select = db.prepare<[string, number], { data: string }>(
+    'SELECT data FROM response_cache WHERE key = ? AND expires_at > ?'
+  );
+  const upsert = db.prepare(
+    'INSERT OR REPLACE INTO response_cache (key, expires_at, data) VALUES (?, ?, ?)'
+  );
+  const purge = db.prepare('DELETE FROM response_cache WHERE expires_at <= ?');
+
+  return {
+    async get(key) {
+      return select.get(key, Date.now())?.data ?? null;
+    },
+
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      purge.run(now);
+      upsert.run(key, now + ttlMs, value);
+    },
+  };
+}
+
+let backend: CacheBackend | null | undefined;
+
+function getBackend(): CacheBackend | null {
+  if (backend !== undefined) return backend;
+
+  const mode = (process.env.RESPONSE_CACHE?.trim().toLowerCase() || 'memory') as CacheMode;
+  if (mode === 'off') {
+    backend = null;
+  } else if (mode === 'sqlite') {
+    backend = createSqliteBackend(
+      resolve(process.env.RESPONSE_CACHE_PATH || DEFAULT_DATABASE_PATH)
+    );
+  } else {
+    if (mode !== 'memory') {
+      console.warn(`Unknown RESPONSE_CACHE "${mode}", using the memory cache`);
+    }
+    backend = createMemoryBackend();
+  }
+  return backend;
+}
+
+/**
+ * Use a different backend (or null to disable caching), e.g. a shared store
+ */
+export function setCacheBackend(cacheBackend: CacheBackend | null): void {
+  backend = cacheBackend;
+}
+
+// ========== Cache ==========
+
+/**
+ * Hash the parts of a request that shape the response into a cache key
+ * Object keys are sorted first, so the same values always give the same key.
+ */
+export function createCacheKey(parts: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(parts)).digest('hex');
+}
+
+export async function getCachedResponse<T>(key: string): Promise<T | null> {
+  try {
+    const value = await getBackend()?.get(key);
+    return value ? (JSON.parse(value) as T) : null;
+  } catch (error) {
+    console.warn('Failed to read response cache:', error);
+    return null;
+  }
+}
+
+export async function setCachedResponse(key: string, value: unknown, ttlMs: number): Promise<void> {
+  try {
+    await getBackend()?.set(key, JSON.stringify(value), ttlMs);
+  } catch (error) {
+    console.warn('Failed to write response cache:', error);
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
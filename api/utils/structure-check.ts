@@ -0,0 +1,240 @@
+/**
+ * Structural check of enhanced HTML against the target HTML it replaces
+ * The prompt asks the model to keep tables, images, links and code intact,
+ * but models still drop images or collapse table rows now and then. This
+ * compares both sides and describes everything that went missing, so the
+ * handler can retry with feedback or pass the warnings on for review.
+ *
+ * Only losses are reported: the model may add content, reword text and
+ * change inline formatting, but not drop what the original had.
+ */
+
+// Tags counted in the inventory (table rows and cells are checked per table)
+const INVENTORY_TAGS = [
+  'table',
+  'ul',
+  'ol',
+  'li',
+  'pre',
+  'blockquote',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+];
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>/g;
+
+interface HtmlTag {
+  name: string;
+  closing: boolean;
+  attributes: string;
+}
+
+/**
+ * Describe what the enhanced HTML lost compared to the target HTML
+ * Returns an empty list when the structure was preserved.
+ */
+export function checkEnhancedStructure(
+  targetHtml: string,
+  enhancedHtml: string,
+  keyTerms: string[] = []
+): string[] {
+  const original = targetHtml.replace(/<\/?target>/g, '');
+  const originalTags = parseTags(original);
+  const enhancedTags = parseTags(enhancedHtml);
+
+  return [
+    ...checkTagInventory(originalTags, enhancedTags),
+    ...checkAttributeValues(originalTags, enhancedTags, 'img', 'src', describeImage),
+    ...checkAttributeValues(originalTags, enhancedTags, 'a', 'href', (href) => `Link to ${href}`),
+    ...checkTableShapes(originalTags, enhancedTags),
+    ...checkCodeSpans(original, enhancedHtml),
+    ...checkKeyTerms(original, enhancedHtml, keyTerms),
+  ];
+}
+
+/**
+ * Feedback for a retry, listing the problems with the previous answer
+ */
+export function buildStructureFeedback(issues: string[]): string {
+  return `Your previous answer changed the structure of the HTML:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Enhance the text again, keeping every block, table row and cell, image, link, code span and key term from the original HTML exactly as it was.`;
+}
+
+// ========== Checks ==========
+
+function checkTagInventory(originalTags: HtmlTag[], enhancedTags: HtmlTag[]): string[] {
+  const issues: string[] = [];
+  for (const name of INVENTORY_TAGS) {
+    const before = countTags(originalTags, name);
+    const after = countTags(enhancedTags, name);
+    if (after < before) {
+      issues.push(`${before - after} of ${before} <${name}> elements are missing`);
+    }
+  }
+  return issues;
+}
+
+function checkAttributeValues(
+  originalTags: HtmlTag[],
+  enhancedTags: HtmlTag[],
+  tagName: string,
+  attribute: string,
+  describe: (value: string) => string
+): string[] {
+  const remaining = enhancedTags
+    .filter((tag) => tag.name === tagName && !tag.closing)
+    .map((tag) => getAttribute(tag, attribute));
+
+  const issues: string[] = [];
+  for (const tag of originalTags) {
+    if (tag.name !== tagName || tag.closing) continue;
+    const value = getAttribute(tag, attribute);
+    if (!value) continue;
+
+    // Each occurrence is matched once, so a duplicated image can't hide a dropped one
+    const index = remaining.indexOf(value);
+    if (index === -1) {
+      issues.push(`${describe(value)} is missing or was changed`);
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+  return issues;
+}
+
+function checkTableShapes(originalTags: HtmlTag[], enhancedTags: HtmlTag[]): string[] {
+  const originalTables = getTableShapes(originalTags);
+  const enhancedTables = getTableShapes(enhancedTags);
+
+  const issues: string[] = [];
+  originalTables.forEach((rows, tableIndex) => {
+    const enhancedRows = enhancedTables[tableIndex];
+    // A missing table is already reported by the tag inventory
+    if (!enhancedRows) return;
+
+    const label = originalTables.length > 1 ? `Table ${tableIndex + 1}` : 'The table';
+    if (enhancedRows.length !== rows.length) {
+      issues.push(`${label} has ${count(enhancedRows.length, 'row')} instead of ${rows.length}`);
+      return;
+    }
+    rows.forEach((cells, rowIndex) => {
+      if (enhancedRows[rowIndex] !== cells) {
+        issues.push(
+          `Row ${rowIndex + 1} of ${label.toLowerCase()} has ${count(enhancedRows[rowIndex], 'cell')} instead of ${cells}`
+        );
+      }
+    });
+  });
+  return issues;
+}
+
+function checkCodeSpans(originalHtml: string, enhancedHtml: string): string[] {
+  const enhancedCode = getCodeSpans(enhancedHtml);
+  return getCodeSpans(originalHtml)
+    .filter((code) => !enhancedCode.includes(code))
+    .map((code) => `Code "${truncate(code, 60)}" is missing or was changed`);
+}
+
+function checkKeyTerms(originalHtml: string, enhancedHtml: string, keyTerms: string[]): string[] {
+  const originalText = htmlToText(originalHtml);
+  const enhancedText = htmlToText(enhancedHtml);
+  return keyTerms
+    .filter((term) => term.trim() && originalText.includes(term) && !enhancedText.includes(term))
+    .map((term) => `Key term "${term}" is missing or was reworded`);
+}
+
+// ========== HTML Helpers ==========
+
+/**
+ * Tokenize the tags of an HTML string
+ * A regular expression is enough here: only tag names, a few attributes
+ * and nesting order are needed, not a full DOM.
+ */
+function parseTags(html: string): HtmlTag[] {
+  return Array.from(html.matchAll(TAG_PATTERN), (match) => ({
+    name: match[2].toLowerCase(),
+    closing: match[1] === '/',
+    attributes: match[3],
+  }));
+}
+
+function countTags(tags: HtmlTag[], name: string): number {
+  return tags.filter((tag) => tag.name === name && !tag.closing).length;
+}
+
+function getAttribute(tag: HtmlTag, attribute: string): string | null {
+  const match = tag.attributes.match(
+    new RegExp(`\\b${attribute}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Number of cells in each row, per table in document order
+ * Rows of nested tables are counted for the nested table only.
+ */
+function getTableShapes(tags: HtmlTag[]): number[][] {
+  const tables: number[][] = [];
+  const open: number[][] = [];
+
+  for (const tag of tags) {
+    const current = open[open.length - 1];
+    if (tag.name === 'table') {
+      if (tag.closing) {
+        open.pop();
+      } else {
+        const rows: number[] = [];
+        tables.push(rows);
+        open.push(rows);
+      }
+    } else if (tag.name === 'tr' && !tag.closing && current) {
+      current.push(0);
+    } else if ((tag.name === 'td' || tag.name === 'th') && !tag.closing && current?.length) {
+      current[current.length - 1]++;
+    }
+  }
+
+  return tables;
+}
+
+function getCodeSpans(html: string): string[] {
+  return Array.from(html.matchAll(/<code\b[^>]*>([\s\S]*?)<\/code>/gi), (match) =>
+    htmlToText(match[1]).trim()
+  ).filter(Boolean);
+}
+
+/**
+ * Plain text of an HTML string, with whitespace collapsed
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ');
+}
+
+function describeImage(src: string): string {
+  // Data URIs can be megabytes long, so only their type is named
+  const dataUri = src.match(/^data:([^;,]+)/);
+  return dataUri ? `Embedded image (${dataUri[1]})` : `Image ${truncate(src, 80)}`;
+}
+
+function count(value: number, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
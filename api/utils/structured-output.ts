@@ -0,0 +1,134 @@
+/**
+ * Schema-driven generation with automatic repair and retry
+ * Wraps the AI SDK generateObject path so handlers get a validated object
+ * or a distinct error telling them the model returned unusable output
+ */
+
+import { generateObject, type LanguageModel, type ModelMessage, NoObjectGeneratedError } from 'ai';
+import type { z } from 'zod';
+
+// ========== Error Codes ==========
+
+/**
+ * Error codes returned in the `code` field of API error responses
+ * - INVALID_REQUEST: request body failed validation
+ * - INVALID_MODEL_OUTPUT: the model answered, but not with usable output (even after retry)
+ * - MODEL_REQUEST_FAILED: the call to the model provider itself failed
+ */
+export const API_ERROR_CODES = {
+  INVALID_REQUEST: 'INVALID_REQUEST',
+  INVALID_MODEL_OUTPUT: 'INVALID_MODEL_OUTPUT',
+  MODEL_REQUEST_FAILED: 'MODEL_REQUEST_FAILED',
+} as const;
+
+export class InvalidModelOutputError extends Error {
+  readonly rawText?: string;
+
+  constructor(message: string, rawText?: string) {
+    super(message);
+    this.name = 'InvalidModelOutputError';
+    this.rawText = rawText;
+  }
+}
+
+// ========== Repair ==========
+
+/**
+ * Extract the first balanced JSON object from model text
+ * Handles markdown code fences and prose around the object, and ignores
+ * braces inside JSON strings (e.g. HTML or code snippets in values)
+ */
+export function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < unfenced.length; i++) {
+    const char = unfenced[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) return unfenced.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+// ========== Generation ==========
+
+interface GenerateValidatedObjectOptions<SCHEMA extends z.ZodType> {
+  model: LanguageModel;
+  schema: SCHEMA;
+  messages: ModelMessage[];
+  temperature?: number;
+  maxAttempts?: number; // Total attempts including the first (default 2)
+}
+
+/**
+ * Generate an object that validates against the schema
+ * 1. generateObject with the schema (providers with native JSON mode enforce it)
+ * 2. On parse/validation failure, repair the raw text (strip fences and prose)
+ * 3. If still invalid, retry with the validation error fed back to the model
+ * Throws InvalidModelOutputError when every attempt fails validation
+ */
+export async function generateValidatedObject<SCHEMA extends z.ZodType>({
+  model,
+  schema,
+  messages,
+  temperature,
+  maxAttempts = 2,
+}: GenerateValidatedObjectOptions<SCHEMA>): Promise<{ object: z.infer<SCHEMA>; modelId?: string }> {
+  let attemptMessages = messages;
+  let lastError: NoObjectGeneratedError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const { object, response } = await generateObject({
+        model,
+        schema,
+        messages: attemptMessages,
+        temperature,
+        experimental_repairText: async ({ text }) => extractJsonObject(text),
+      });
+
+      return { object: object as z.infer<SCHEMA>, modelId: response.modelId };
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        throw error;
+      }
+
+      lastError = error;
+      const reason = error.cause instanceof Error ? error.cause.message : error.message;
+      console.warn(`Model output failed validation (attempt ${attempt}/${maxAttempts}): ${reason}`);
+
+      // Feed the invalid answer and the validation error back for the next attempt
+      attemptMessages = [
+        ...messages,
+        { role: 'assistant', content: error.text || '' },
+        {
+          role: 'user',
+          content: `Your previous response could not be used: ${reason}\nReturn ONLY a JSON object that matches the required schema exactly.`,
+        },
+      ];
+    }
+  }
+
+  throw new InvalidModelOutputError(
+    'AI returned output that does not match the expected format',
+    lastError?.text
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Vercel Function: Document versions in the shared document store
+ * Endpoint: /api/versions
+ *
+ * GET  → a document's versions, oldest first (?documentId= is required)
+ * POST → add a version snapshot (the server assigns id and createdAt)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { authorizeStoreRequest, insertVersion, listVersions } from './utils/document-store';
+import { API_ERROR_CODES } from './utils/structured-output';
+
+const versionInputSchema = z.looseObject({
+  documentId: z.string().min(1),
+  reason: z.enum(['import', 'save', 'enhancement', 'refresh', 'restore']),
+  content: z.unknown(),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (typeof req.query.documentId !== 'string') {
+          return res.status(400).json({
+            error: 'documentId query parameter is required',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+          });
+        }
+        return res.status(200).json(listVersions(req.query.documentId));
+      }
+
+      case 'POST': {
+        const validation = versionInputSchema.safeParse(req.body);
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            code: API_ERROR_CODES.INVALID_REQUEST,
+            details: validation.error.issues,
+          });
+        }
+        const version = insertVersion(validation.data);
+        if (!version) {
+          return res.status(404).json({ error: 'Document not found' });
+        }
+        return res.status(201).json(version);
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
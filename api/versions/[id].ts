@@ -0,0 +1,47 @@
+/**
+ * Vercel Function: A single document version
+ * Endpoint: PATCH /api/versions/:id
+ *
+ * Only the tag and note can change; the snapshot itself is immutable.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { authorizeStoreRequest, updateVersion } from '../utils/document-store';
+import { API_ERROR_CODES } from '../utils/structured-output';
+
+const updateRequestSchema = z.object({
+  tag: z.string().max(100).optional(),
+  note: z.string().max(1000).optional(),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!authorizeStoreRequest(req, res)) return;
+
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const validation = updateRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      code: API_ERROR_CODES.INVALID_REQUEST,
+      details: validation.error.issues,
+    });
+  }
+
+  try {
+    const updated = updateVersion(String(req.query.id), validation.data);
+    if (!updated) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    return res.status(200).json(updated);
+  } catch (error) {
+    console.error('Document store error:', error);
+    return res.status(500).json({
+      error: 'Document store error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -5,13 +5,17 @@ import {
   Breadcrumbs,
   Container,
   Group,
+  Text,
   Title,
   Tooltip,
 } from '@mantine/core';
+import { modals } from '@mantine/modals';
 import { IconHome, IconSettings, IconSparkles, IconFlask } from '@tabler/icons-react';
 import { useState } from 'react';
 import { DocumentEnhancement } from './components/enhancement/DocumentEnhancement';
-import type { Document } from './lib/storage';
+import { clearDraft } from './lib/drafts';
+import { type Document, storage, type VersionReason } from './lib/storage';
+import { commitVersion } from './lib/versions';
 import { Dashboard } from './pages/Dashboard';
 import { Settings } from './pages/Settings';
 import { TiptapTest } from './pages/TiptapTest';
@@ -22,19 +26,73 @@ function App() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [sidePanelOpened, setSidePanelOpened] = useState(false);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
   const handleEnhance = (doc: Document) => {
     setSelectedDocument(doc);
     setCurrentPage('enhance');
   };
 
+  const handleSaveDocument = async (content: Document['content'], reason: VersionReason) => {
+    if (!selectedDocument) return;
+    const updated = await commitVersion(selectedDocument.id, content, reason);
+    if (!updated) {
+      throw new Error('Document no longer exists');
+    }
+    setSelectedDocument(updated);
+  };
+
+  /**
+   * Save editor changes as they are made, without adding a version
+   */
+  const handleAutosaveDocument = async (content: Document['content']) => {
+    if (!selectedDocument) return;
+    const updated = await storage.updateDocument(selectedDocument.id, { content });
+    if (!updated) {
+      throw new Error('Document no longer exists');
+    }
+    setSelectedDocument(updated);
+  };
+
+  /**
+   * Switch pages, asking first when the editor has changes that aren't saved yet
+   */
+  const navigate = (page: Page) => {
+    const leave = () => {
+      if (page !== 'enhance') setSelectedDocument(null);
+      setHasUnsavedChanges(false);
+      setCurrentPage(page);
+    };
+
+    if (currentPage !== 'enhance' || !hasUnsavedChanges) {
+      leave();
+      return;
+    }
+
+    modals.openConfirmModal({
+      title: 'Unsaved Changes',
+      centered: true,
+      children: (
+        <Text size="sm">
+          Your latest changes to <strong>"{selectedDocument?.name}"</strong> haven't been saved yet.
+          Leave the editor and discard them?
+        </Text>
+      ),
+      labels: { confirm: 'Discard and Leave', cancel: 'Stay' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => {
+        if (selectedDocument) clearDraft(selectedDocument.id);
+        leave();
+      },
+    });
+  };
+
   const handleBackToDashboard = () => {
-    setCurrentPage('dashboard');
-    setSelectedDocument(null);
+    navigate('dashboard');
   };
 
   const handleOpenSettings = () => {
-    setCurrentPage('settings');
+    navigate('settings');
   };
 
   const getBreadcrumbs = () => {
@@ -103,11 +161,7 @@ function App() {
                 </Tooltip>
               )}
               <Tooltip label="Tiptap Test (Phase 1)">
-                <ActionIcon
-                  variant="subtle"
-                  color="orange"
-                  onClick={() => setCurrentPage('tiptap-test')}
-                >
+                <ActionIcon variant="subtle" color="orange" onClick={() => navigate('tiptap-test')}>
                   <IconFlask size={20} />
                 </ActionIcon>
               </Tooltip>
@@ -143,11 +197,16 @@ function App() {
         {currentPage === 'enhance' && selectedDocument && (
           <Container size="xl" h="100%" p="md" style={{ display: 'flex', flexDirection: 'column' }}>
             <DocumentEnhancement
+              documentId={selectedDocument.id}
               contentJson={selectedDocument.content}
               documentName={selectedDocument.name}
               documentMetadata={selectedDocument.metadata}
               onOpenSidePanel={() => setSidePanelOpened(true)}
               onCloseSidePanel={() => setSidePanelOpened(false)}
+              lastSavedAt={selectedDocument.updatedAt}
+              onSave={handleSaveDocument}
+              onAutosave={handleAutosaveDocument}
+              onDirtyChange={setHasUnsavedChanges}
             />
           </Container>
         )}
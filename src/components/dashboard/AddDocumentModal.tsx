@@ -5,24 +5,20 @@ import {
   IconAlertCircle,
   IconCloud,
   IconFileText,
+  IconHierarchy,
   IconLoader,
   IconUpload,
 } from '@tabler/icons-react';
 import { zod4Resolver } from 'mantine-form-zod-resolver';
 import { useState } from 'react';
 import { z } from 'zod';
-import {
-  analyzeDocument,
-  convertPdfToHtml,
-  fetchFromConfluence,
-} from '@/lib/api-client';
-import {
-  htmlToTiptapJson,
-  markdownToHtml,
-  plainTextToHtml,
-} from '@/lib/content-converters';
-import { getSettings } from '@/lib/settings';
+import { analyzeDocument, convertPdfToHtml } from '@/lib/api-client';
+import { importConfluencePage } from '@/lib/confluence-import';
+import { htmlToTiptapJson, markdownToHtml, plainTextToHtml } from '@/lib/content-converters';
+import { getConfluenceCredentials, getSettings } from '@/lib/settings';
 import { storage } from '@/lib/storage';
+import { recordVersion } from '@/lib/versions';
+import { ConfluenceTreeImport } from './ConfluenceTreeImport';
 
 interface AddDocumentModalProps {
   opened: boolean;
@@ -95,45 +91,26 @@ export function AddDocumentModal({ opened, onClose, onSuccess }: AddDocumentModa
     setIsLoading(true);
 
     try {
-      // Fetch content from Confluence (returns sanitized HTML)
-      const confluenceData = await fetchFromConfluence(values.confluenceUrl, {
-        confluenceToken: settings.confluenceToken,
-        confluenceEmail: settings.confluenceEmail,
-      });
-
-      const documentName = values.name || confluenceData.title;
-      const htmlContent = confluenceData.content;
-
-      // Convert HTML to Tiptap JSON
-      const tiptapJson = htmlToTiptapJson(htmlContent);
-
-      // Analyze document to extract metadata (async, don't block save)
-      let metadata;
-      try {
-        metadata = await analyzeDocument({
-          fullDocumentHtml: htmlContent,
-          documentName,
-        });
-        console.log('Document metadata extracted:', metadata);
-      } catch (metadataError) {
-        console.warn('Failed to extract metadata, continuing without it:', metadataError);
-        // Continue saving without metadata if analysis fails
-      }
-
-      // Save document with Tiptap JSON content and metadata
-      storage.addDocument({
-        name: documentName,
-        confluenceUrl: values.confluenceUrl,
-        content: tiptapJson,
-        metadata,
-      });
+      const { document, failedImages } = await importConfluencePage(
+        values.confluenceUrl,
+        getConfluenceCredentials(settings),
+        values.name
+      );
 
       notifications.show({
         title: 'Success',
-        message: `Document "${documentName}" added successfully${metadata ? ' with AI-generated metadata' : ''}`,
+        message: `Document "${document.name}" added successfully${document.metadata ? ' with AI-generated metadata' : ''}`,
         color: 'green',
       });
 
+      if (failedImages > 0) {
+        notifications.show({
+          title: 'Some Images Not Imported',
+          message: `${failedImages} attached image${failedImages !== 1 ? 's' : ''} could not be downloaded and will only show while logged in to Confluence`,
+          color: 'orange',
+        });
+      }
+
       confluenceForm.reset();
       onClose();
       onSuccess();
@@ -218,12 +195,13 @@ export function AddDocumentModal({ opened, onClose, onSuccess }: AddDocumentModa
       }
 
       // Save document with Tiptap JSON content and metadata
-      storage.addDocument({
+      const newDocument = await storage.addDocument({
         name: documentName,
         confluenceUrl: '', // No Confluence URL for local files
         content: tiptapJson,
         metadata,
       });
+      await recordVersion(newDocument.id, tiptapJson, 'import');
 
       notifications.show({
         title: 'Success',
@@ -258,6 +236,9 @@ export function AddDocumentModal({ opened, onClose, onSuccess }: AddDocumentModa
           <Tabs.Tab value="confluence" leftSection={<IconCloud size={16} />}>
             From Confluence
           </Tabs.Tab>
+          <Tabs.Tab value="tree" leftSection={<IconHierarchy size={16} />}>
+            Space / Tree
+          </Tabs.Tab>
         </Tabs.List>
 
         <Tabs.Panel value="confluence" pt="md">
@@ -300,6 +281,10 @@ export function AddDocumentModal({ opened, onClose, onSuccess }: AddDocumentModa
           </form>
         </Tabs.Panel>
 
+        <Tabs.Panel value="tree" pt="md">
+          <ConfluenceTreeImport onStarted={onClose} onPageImported={onSuccess} />
+        </Tabs.Panel>
+
         <Tabs.Panel value="file" pt="md">
           <form onSubmit={fileForm.onSubmit(handleFileSubmit)}>
             <Stack gap="md">
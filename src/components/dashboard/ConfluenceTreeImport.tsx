@@ -0,0 +1,290 @@
+import {
+  Alert,
+  Badge,
+  Button,
+  Checkbox,
+  Group,
+  Paper,
+  Progress,
+  ScrollArea,
+  Stack,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconAlertCircle, IconHierarchy, IconList } from '@tabler/icons-react';
+import { useState } from 'react';
+import {
+  type ConfluencePageListResponse,
+  describeApiError,
+  listConfluencePages,
+} from '@/lib/api-client';
+import {
+  getImportedPageIds,
+  importConfluencePages,
+  type PageImportProgress,
+} from '@/lib/confluence-import';
+import { type ConfluenceCredentials, getConfluenceCredentials, getSettings } from '@/lib/settings';
+
+interface ConfluenceTreeImportProps {
+  onStarted: () => void; // The import continues in the background after this
+  onPageImported: () => void;
+}
+
+export function ConfluenceTreeImport({ onStarted, onPageImported }: ConfluenceTreeImportProps) {
+  const [url, setUrl] = useState('');
+  const [isListing, setIsListing] = useState(false);
+  const [listing, setListing] = useState<ConfluencePageListResponse | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [importedIds, setImportedIds] = useState<Set<string>>(new Set());
+
+  const settings = getSettings();
+
+  const handleList = async () => {
+    if (!settings) return;
+
+    setIsListing(true);
+    setListing(null);
+
+    try {
+      const result = await listConfluencePages(url, getConfluenceCredentials(settings));
+      const alreadyImported = await getImportedPageIds();
+
+      setListing(result);
+      setImportedIds(alreadyImported);
+      // Select everything that isn't already on the dashboard
+      setSelectedIds(
+        new Set(result.pages.filter((page) => !alreadyImported.has(page.id)).map((page) => page.id))
+      );
+    } catch (error) {
+      const { title, message } = describeApiError(error, {
+        title: 'Error',
+        message: 'Failed to list Confluence pages',
+      });
+      notifications.show({
+        title,
+        message,
+        color: 'red',
+        icon: <IconAlertCircle size={18} />,
+      });
+    } finally {
+      setIsListing(false);
+    }
+  };
+
+  const togglePage = (pageId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageId)) {
+        next.delete(pageId);
+      } else {
+        next.add(pageId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!settings || !listing) return;
+
+    const pages = listing.pages.filter((page) => selectedIds.has(page.id));
+    runTreeImport(pages, getConfluenceCredentials(settings), onPageImported);
+
+    setListing(null);
+    setUrl('');
+    onStarted();
+  };
+
+  return (
+    <Stack gap="md">
+      {!settings && (
+        <Alert icon={<IconAlertCircle size={16} />} color="orange" variant="light">
+          <Text size="sm">
+            Please configure your Confluence credentials in Settings before adding documents.
+          </Text>
+        </Alert>
+      )}
+
+      <TextInput
+        label="Space or Parent Page URL"
+        placeholder="https://your-domain.atlassian.net/wiki/spaces/SPACE/overview"
+        description="A space URL imports every page in the space; a page URL imports the page and its children"
+        value={url}
+        onChange={(event) => setUrl(event.currentTarget.value)}
+        disabled={isListing}
+      />
+      <Button
+        variant="light"
+        fullWidth
+        loading={isListing}
+        disabled={!settings || !url.trim()}
+        leftSection={<IconList size={18} />}
+        onClick={handleList}
+      >
+        List Pages
+      </Button>
+
+      {listing && (
+        <>
+          <Group justify="space-between">
+            <Text size="sm" fw={500}>
+              {listing.pages.length} page{listing.pages.length !== 1 ? 's' : ''} in{' '}
+              {listing.scope === 'space' ? 'space' : 'tree'} "{listing.title}"
+            </Text>
+            <Group gap="xs">
+              <Button
+                size="xs"
+                variant="subtle"
+                onClick={() => setSelectedIds(new Set(listing.pages.map((page) => page.id)))}
+              >
+                Select all
+              </Button>
+              <Button size="xs" variant="subtle" onClick={() => setSelectedIds(new Set())}>
+                Select none
+              </Button>
+            </Group>
+          </Group>
+
+          {listing.truncated && (
+            <Text size="xs" c="orange">
+              Only the first {listing.pages.length} pages are listed. Import a sub-tree to get the
+              rest.
+            </Text>
+          )}
+
+          <Paper withBorder p="xs">
+            <ScrollArea.Autosize mah={300} type="auto">
+              <Stack gap={6}>
+                {listing.pages.map((page) => (
+                  <Group
+                    key={page.id}
+                    gap="xs"
+                    wrap="nowrap"
+                    style={{ paddingLeft: `calc(${page.depth} * var(--mantine-spacing-md))` }}
+                  >
+                    <Checkbox
+                      size="xs"
+                      checked={selectedIds.has(page.id)}
+                      onChange={() => togglePage(page.id)}
+                      label={page.title}
+                    />
+                    {importedIds.has(page.id) && (
+                      <Badge size="xs" variant="light" color="gray">
+                        Imported
+                      </Badge>
+                    )}
+                  </Group>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+          </Paper>
+
+          <Button
+            fullWidth
+            disabled={selectedIds.size === 0}
+            leftSection={<IconHierarchy size={18} />}
+            onClick={handleImport}
+          >
+            Import {selectedIds.size} Page{selectedIds.size !== 1 ? 's' : ''}
+          </Button>
+        </>
+      )}
+    </Stack>
+  );
+}
+
+/**
+ * Run the import in the background, reporting progress in a notification
+ * that stays open until the run finishes (the modal can be closed meanwhile)
+ */
+function runTreeImport(
+  pages: ConfluencePageListResponse['pages'],
+  credentials: ConfluenceCredentials,
+  onPageImported: () => void
+) {
+  const controller = new AbortController();
+  let importedCount = 0;
+
+  const notificationId = notifications.show({
+    title: 'Importing from Confluence',
+    message: <ImportProgressMessage progress={[]} total={pages.length} />,
+    loading: true,
+    autoClose: false,
+    withCloseButton: false,
+  });
+
+  const renderProgress = (progress: PageImportProgress[]) => (
+    <Stack gap={6}>
+      <ImportProgressMessage progress={progress} total={pages.length} />
+      <Button size="compact-xs" variant="subtle" color="red" onClick={() => controller.abort()}>
+        Cancel
+      </Button>
+    </Stack>
+  );
+
+  importConfluencePages(pages, credentials, {
+    signal: controller.signal,
+    onProgress: (progress) => {
+      const imported = progress.filter((item) => item.status === 'imported').length;
+      if (imported > importedCount) {
+        importedCount = imported;
+        onPageImported();
+      }
+      notifications.update({ id: notificationId, message: renderProgress(progress) });
+    },
+  }).then((progress) => {
+    const failed = progress.filter((item) => item.status === 'failed');
+    const cancelled = progress.filter((item) => item.status === 'cancelled').length;
+
+    notifications.update({
+      id: notificationId,
+      title: failed.length > 0 ? 'Import Finished with Errors' : 'Import Finished',
+      message: (
+        <Stack gap={4}>
+          <Text size="sm">
+            {importedCount} of {pages.length} page{pages.length !== 1 ? 's' : ''} imported
+            {cancelled > 0 ? `, ${cancelled} cancelled` : ''}.
+          </Text>
+          {failed.map((item) => (
+            <Text key={item.page.id} size="xs" c="red">
+              {item.page.title}: {item.error}
+            </Text>
+          ))}
+        </Stack>
+      ),
+      color: failed.length > 0 ? 'orange' : 'green',
+      loading: false,
+      autoClose: failed.length > 0 ? false : 5000,
+      withCloseButton: true,
+    });
+  });
+}
+
+function ImportProgressMessage({
+  progress,
+  total,
+}: {
+  progress: PageImportProgress[];
+  total: number;
+}) {
+  const done = progress.filter(
+    (item) => item.status === 'imported' || item.status === 'failed'
+  ).length;
+  const failed = progress.filter((item) => item.status === 'failed').length;
+  const current = progress.filter((item) => item.status === 'importing');
+
+  return (
+    <Stack gap={4}>
+      <Text size="sm">
+        {done} of {total} page{total !== 1 ? 's' : ''} processed
+        {failed > 0 ? ` (${failed} failed)` : ''}
+      </Text>
+      <Progress value={total > 0 ? (done / total) * 100 : 0} size="sm" />
+      {current.map((item) => (
+        <Text key={item.page.id} size="xs" c="dimmed" truncate>
+          Importing "{item.page.title}"...
+        </Text>
+      ))}
+    </Stack>
+  );
+}
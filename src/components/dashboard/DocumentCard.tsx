@@ -5,11 +5,25 @@ import {
   IconDotsVertical,
   IconTrash,
   IconExternalLink,
+  IconCloudUpload,
+  IconHistory,
 } from '@tabler/icons-react';
 import { modals } from '@mantine/modals';
 import { notifications } from '@mantine/notifications';
+import { useState } from 'react';
 import type { Document } from '@/lib/storage';
 import { storage } from '@/lib/storage';
+import { getConfluenceCredentials, getSettings } from '@/lib/settings';
+import {
+  type ConfluenceResponse,
+  describeApiError,
+  fetchFromConfluence,
+  publishToConfluence,
+} from '@/lib/api-client';
+import { htmlToTiptapJson } from '@/lib/content-converters';
+import { hasBlockChanges } from '@/lib/content-diff';
+import { RefreshDocumentModal } from './RefreshDocumentModal';
+import { VersionHistoryModal } from './VersionHistoryModal';
 
 interface DocumentCardProps {
   document: Document;
@@ -18,6 +32,13 @@ interface DocumentCardProps {
 }
 
 export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardProps) {
+  const [checkingChanges, setCheckingChanges] = useState(false);
+  const [latestPage, setLatestPage] = useState<{
+    page: ConfluenceResponse;
+    content: Document['content'];
+  } | null>(null);
+  const [historyOpened, setHistoryOpened] = useState(false);
+
   const handleDelete = () => {
     modals.openConfirmModal({
       title: 'Delete Document',
@@ -30,8 +51,8 @@ export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardPro
       ),
       labels: { confirm: 'Delete', cancel: 'Cancel' },
       confirmProps: { color: 'red' },
-      onConfirm: () => {
-        const success = storage.deleteDocument(document.id);
+      onConfirm: async () => {
+        const success = await storage.deleteDocument(document.id);
 
         if (success) {
           notifications.show({
@@ -55,6 +76,149 @@ export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardPro
     window.open(document.confluenceUrl, '_blank');
   };
 
+  const handleCheckChanges = async () => {
+    const settings = getSettings();
+    if (!settings) {
+      notifications.show({
+        title: 'Settings Required',
+        message: 'Please configure your Confluence credentials in Settings first',
+        color: 'orange',
+      });
+      return;
+    }
+
+    setCheckingChanges(true);
+
+    try {
+      const page = await fetchFromConfluence(
+        document.confluenceUrl,
+        getConfluenceCredentials(settings)
+      );
+      const content = htmlToTiptapJson(page.content);
+
+      // Documents imported before versions were stored fall back to comparing content
+      const upstreamChanged = document.confluenceVersion
+        ? page.version !== document.confluenceVersion
+        : hasBlockChanges(document.content, content);
+
+      if (!upstreamChanged) {
+        await storage.updateDocument(document.id, {
+          confluenceVersion: page.version,
+          confluenceLastModified: page.lastModified,
+          confluenceBaseContent: document.confluenceBaseContent ?? content,
+        });
+        onRefresh();
+        notifications.show({
+          title: 'Up to Date',
+          message: `"${document.name}" has not changed in Confluence since it was imported`,
+          color: 'green',
+        });
+        return;
+      }
+
+      setLatestPage({ page, content });
+    } catch (error) {
+      const { title, message } = describeApiError(error, {
+        title: 'Check Failed',
+        message: 'Failed to fetch document from Confluence',
+      });
+      notifications.show({
+        title,
+        message,
+        color: 'red',
+      });
+    } finally {
+      setCheckingChanges(false);
+    }
+  };
+
+  const handlePublish = () => {
+    const settings = getSettings();
+    if (!settings) {
+      notifications.show({
+        title: 'Settings Required',
+        message: 'Please configure your Confluence credentials in Settings first',
+        color: 'orange',
+      });
+      return;
+    }
+
+    if (!document.confluenceVersion) {
+      notifications.show({
+        title: 'Cannot Publish',
+        message: 'This document was imported without a page version. Re-import it to publish.',
+        color: 'orange',
+      });
+      return;
+    }
+
+    const confluenceVersion = document.confluenceVersion;
+
+    modals.openConfirmModal({
+      title: 'Publish to Confluence',
+      centered: true,
+      children: (
+        <Text size="sm">
+          Replace the content of the Confluence page with <strong>"{document.name}"</strong>? The
+          page will be saved as a new version.
+        </Text>
+      ),
+      labels: { confirm: 'Publish', cancel: 'Cancel' },
+      onConfirm: async () => {
+        const notificationId = notifications.show({
+          title: 'Publishing',
+          message: `Publishing "${document.name}" to Confluence...`,
+          loading: true,
+          autoClose: false,
+        });
+
+        try {
+          const result = await publishToConfluence(
+            {
+              confluenceUrl: document.confluenceUrl,
+              content: document.content,
+              version: confluenceVersion,
+            },
+            getConfluenceCredentials(settings)
+          );
+
+          // The published content is what Confluence now has, so it becomes the merge base
+          await storage.updateDocument(document.id, {
+            confluenceVersion: result.version,
+            confluenceLastModified: result.lastModified,
+            confluenceBaseContent: document.content,
+          });
+          onRefresh();
+
+          notifications.update({
+            id: notificationId,
+            title: 'Published',
+            message:
+              result.skippedImages > 0
+                ? `Saved as version ${result.version}. ${result.skippedImages} embedded image${result.skippedImages !== 1 ? 's were' : ' was'} not published.`
+                : `Saved as version ${result.version}`,
+            color: result.skippedImages > 0 ? 'yellow' : 'green',
+            loading: false,
+            autoClose: true,
+          });
+        } catch (error) {
+          const { title, message } = describeApiError(error, {
+            title: 'Publish Failed',
+            message: 'Failed to publish to Confluence',
+          });
+          notifications.update({
+            id: notificationId,
+            title,
+            message,
+            color: 'red',
+            loading: false,
+            autoClose: true,
+          });
+        }
+      },
+    });
+  };
+
   const getStatusBadge = () => {
     if (!document.content) {
       return (
@@ -119,6 +283,17 @@ export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardPro
               >
                 Open in Confluence
               </Menu.Item>
+              {document.confluenceUrl && (
+                <Menu.Item leftSection={<IconCloudUpload size={16} />} onClick={handlePublish}>
+                  Publish to Confluence
+                </Menu.Item>
+              )}
+              <Menu.Item
+                leftSection={<IconHistory size={16} />}
+                onClick={() => setHistoryOpened(true)}
+              >
+                Version History
+              </Menu.Item>
               <Menu.Divider />
               <Menu.Item leftSection={<IconTrash size={16} />} color="red" onClick={handleDelete}>
                 Delete
@@ -144,7 +319,9 @@ export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardPro
             variant="light"
             size="sm"
             flex={1}
-            disabled
+            onClick={handleCheckChanges}
+            loading={checkingChanges}
+            disabled={!document.confluenceUrl}
           >
             Check Changes
           </Button>
@@ -159,6 +336,26 @@ export function DocumentCard({ document, onEnhance, onRefresh }: DocumentCardPro
           </Button>
         </Group>
       </Stack>
+
+      {latestPage && (
+        <RefreshDocumentModal
+          opened
+          document={document}
+          latest={latestPage.page}
+          latestContent={latestPage.content}
+          onClose={() => setLatestPage(null)}
+          onResolved={onRefresh}
+        />
+      )}
+
+      {historyOpened && (
+        <VersionHistoryModal
+          opened
+          document={document}
+          onClose={() => setHistoryOpened(false)}
+          onRestored={onRefresh}
+        />
+      )}
     </Card>
   );
 }
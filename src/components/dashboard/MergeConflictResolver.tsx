@@ -0,0 +1,116 @@
+import {
+  Badge,
+  Button,
+  Group,
+  Paper,
+  ScrollArea,
+  SegmentedControl,
+  Stack,
+  Text,
+} from '@mantine/core';
+import { IconArrowLeft, IconCheck } from '@tabler/icons-react';
+import { useState } from 'react';
+import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
+import { type TiptapJsonNode, tiptapJsonToBlockLines } from '@/lib/content-diff';
+import {
+  buildMergedDocument,
+  type ConflictResolution,
+  type ThreeWayMergeResult,
+} from '@/lib/document-merge';
+
+interface MergeConflictResolverProps {
+  merge: ThreeWayMergeResult;
+  onApply: (content: TiptapJsonNode) => void;
+  onBack: () => void;
+}
+
+const RESOLUTION_OPTIONS: Array<{ value: ConflictResolution; label: string }> = [
+  { value: 'ours', label: 'Keep mine' },
+  { value: 'theirs', label: 'Use Confluence' },
+  { value: 'both', label: 'Keep both' },
+];
+
+export function MergeConflictResolver({ merge, onApply, onBack }: MergeConflictResolverProps) {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const resolvedCount = merge.conflicts.filter((conflict) => resolutions[conflict.id]).length;
+
+  const setAll = (resolution: ConflictResolution) => {
+    setResolutions(
+      Object.fromEntries(merge.conflicts.map((conflict) => [conflict.id, resolution]))
+    );
+  };
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Text size="sm">
+          {merge.autoMerged > 0 &&
+            `${merge.autoMerged} change${merge.autoMerged !== 1 ? 's' : ''} from Confluence merged automatically. `}
+          {merge.conflicts.length} block{merge.conflicts.length !== 1 ? 's were' : ' was'} changed
+          on both sides.
+        </Text>
+        <Group gap="xs">
+          <Button size="xs" variant="subtle" onClick={() => setAll('ours')}>
+            Keep all mine
+          </Button>
+          <Button size="xs" variant="subtle" onClick={() => setAll('theirs')}>
+            Use all Confluence
+          </Button>
+        </Group>
+      </Group>
+
+      <ScrollArea h="60vh" type="auto">
+        <Stack gap="md">
+          {merge.conflicts.map((conflict, index) => (
+            <Paper key={conflict.id} p="sm" withBorder>
+              <Group justify="space-between" mb="xs">
+                <Badge color={resolutions[conflict.id] ? 'green' : 'orange'} variant="light">
+                  Conflict {index + 1}
+                </Badge>
+                <SegmentedControl
+                  size="xs"
+                  data={RESOLUTION_OPTIONS}
+                  value={resolutions[conflict.id] ?? ''}
+                  onChange={(value) =>
+                    setResolutions((prev) => ({
+                      ...prev,
+                      [conflict.id]: value as ConflictResolution,
+                    }))
+                  }
+                />
+              </Group>
+              <ReactDiffViewer
+                oldValue={tiptapJsonToBlockLines({ type: 'doc', content: conflict.ours })}
+                newValue={tiptapJsonToBlockLines({ type: 'doc', content: conflict.theirs })}
+                splitView
+                leftTitle="Mine"
+                rightTitle="Confluence"
+                compareMethod={DiffMethod.WORDS}
+                useDarkTheme={false}
+                styles={{
+                  diffContainer: {
+                    fontSize: '13px',
+                  },
+                }}
+              />
+            </Paper>
+          ))}
+        </Stack>
+      </ScrollArea>
+
+      <Group justify="space-between">
+        <Button variant="default" leftSection={<IconArrowLeft size={16} />} onClick={onBack}>
+          Back
+        </Button>
+        <Button
+          leftSection={<IconCheck size={16} />}
+          disabled={resolvedCount < merge.conflicts.length}
+          onClick={() => onApply(buildMergedDocument(merge.segments, resolutions))}
+        >
+          Apply Merge ({resolvedCount}/{merge.conflicts.length} resolved)
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
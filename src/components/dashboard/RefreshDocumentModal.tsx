@@ -0,0 +1,226 @@
+import { Alert, Badge, Button, Group, Modal, ScrollArea, Stack, Text } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertTriangle,
+  IconCloudDownload,
+  IconGitMerge,
+  IconInfoCircle,
+  IconLock,
+} from '@tabler/icons-react';
+import { useMemo, useState } from 'react';
+import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
+import type { ConfluenceResponse } from '@/lib/api-client';
+import { hasBlockChanges, mergeBlocksTwoWay, tiptapJsonToBlockLines } from '@/lib/content-diff';
+import {
+  buildMergedDocument,
+  mergeBlocksThreeWay,
+  type ThreeWayMergeResult,
+} from '@/lib/document-merge';
+import { type Document, storage } from '@/lib/storage';
+import { commitVersion } from '@/lib/versions';
+import { MergeConflictResolver } from './MergeConflictResolver';
+
+interface RefreshDocumentModalProps {
+  opened: boolean;
+  document: Document;
+  latest: ConfluenceResponse | null; // Page as just fetched from Confluence
+  latestContent: Document['content']; // Latest page converted to Tiptap JSON
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+export function RefreshDocumentModal({
+  opened,
+  document,
+  latest,
+  latestContent,
+  onClose,
+  onResolved,
+}: RefreshDocumentModalProps) {
+  const [pendingMerge, setPendingMerge] = useState<ThreeWayMergeResult | null>(null);
+
+  const storedLines = useMemo(() => tiptapJsonToBlockLines(document.content), [document.content]);
+  const latestLines = useMemo(() => tiptapJsonToBlockLines(latestContent), [latestContent]);
+
+  // Without a base (documents imported before it was stored) local edits can't be detected
+  const hasLocalChanges = useMemo(
+    () =>
+      document.confluenceBaseContent
+        ? hasBlockChanges(document.confluenceBaseContent, document.content)
+        : true,
+    [document.confluenceBaseContent, document.content]
+  );
+
+  if (!latest) {
+    return null;
+  }
+
+  // The fetched page becomes the new base for future merges
+  const confluenceFields: Partial<Document> = {
+    confluenceVersion: latest.version,
+    confluenceLastModified: latest.lastModified,
+    confluenceBaseContent: latestContent,
+  };
+
+  const handleClose = () => {
+    setPendingMerge(null);
+    onClose();
+  };
+
+  const resolve = async (updates: Partial<Document>, message: string) => {
+    try {
+      // Content changes are snapshotted; keeping the stored content only updates the base
+      if (updates.content) {
+        await commitVersion(document.id, updates.content, 'refresh', {
+          note: `Confluence version ${latest.version}`,
+          updates: confluenceFields,
+        });
+      } else {
+        await storage.updateDocument(document.id, { ...confluenceFields, ...updates });
+      }
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save document',
+        color: 'red',
+      });
+      return;
+    }
+
+    notifications.show({
+      title: 'Document Updated',
+      message,
+      color: 'green',
+    });
+    onResolved();
+    handleClose();
+  };
+
+  // Replace stored content with the latest page
+  const handleOverwrite = () => {
+    resolve({ content: latestContent }, `"${document.name}" now matches Confluence`);
+  };
+
+  // Keep stored content, but mark the latest version as seen so it can be published over
+  const handleKeep = () => {
+    resolve({}, `Kept your version of "${document.name}"`);
+  };
+
+  // Three-way merge against the content at import; two-way union when there is no base
+  const handleMerge = () => {
+    if (!document.confluenceBaseContent) {
+      resolve(
+        { content: mergeBlocksTwoWay(document.content, latestContent) },
+        `Merged Confluence changes into "${document.name}"`
+      );
+      return;
+    }
+
+    const merge = mergeBlocksThreeWay(
+      document.confluenceBaseContent,
+      document.content,
+      latestContent
+    );
+
+    if (merge.conflicts.length > 0) {
+      setPendingMerge(merge);
+      return;
+    }
+
+    resolve(
+      { content: buildMergedDocument(merge.segments, {}) },
+      `Merged ${merge.autoMerged} Confluence change${merge.autoMerged !== 1 ? 's' : ''} into "${document.name}"`
+    );
+  };
+
+  const formatDate = (dateString?: string) =>
+    dateString ? new Date(dateString).toLocaleString('en-US') : 'unknown';
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      title={pendingMerge ? 'Resolve Conflicts' : 'Changes in Confluence'}
+      size="90%"
+      centered
+    >
+      {pendingMerge ? (
+        <MergeConflictResolver
+          merge={pendingMerge}
+          onBack={() => setPendingMerge(null)}
+          onApply={(content) =>
+            resolve({ content }, `Merged Confluence changes into "${document.name}"`)
+          }
+        />
+      ) : (
+        <Stack gap="md">
+          <Group gap="xs">
+            <Badge color="gray" variant="light">
+              Stored: version {document.confluenceVersion ?? 'unknown'}
+            </Badge>
+            <Text size="sm" c="dimmed">
+              →
+            </Text>
+            <Badge color="blue" variant="light">
+              Confluence: version {latest.version}
+            </Badge>
+            <Text size="xs" c="dimmed">
+              Last modified {formatDate(latest.lastModified)}
+            </Text>
+          </Group>
+
+          <Alert icon={<IconInfoCircle size={16} />} color="blue" variant="light">
+            <Text size="sm">
+              <strong>Overwrite</strong> replaces your stored content with the Confluence page.{' '}
+              <strong>Keep mine</strong> leaves your content as it is (publishing will replace the
+              Confluence changes). <strong>Merge</strong> applies changes made on only one side
+              automatically and lets you choose for blocks changed on both sides.
+            </Text>
+          </Alert>
+
+          {hasLocalChanges && (
+            <Alert icon={<IconAlertTriangle size={16} />} color="orange" variant="light">
+              <Text size="sm">This document has local changes. Overwrite will discard them.</Text>
+            </Alert>
+          )}
+
+          <ScrollArea h="60vh" type="auto">
+            <ReactDiffViewer
+              oldValue={storedLines}
+              newValue={latestLines}
+              splitView
+              leftTitle="Stored"
+              rightTitle="Confluence"
+              compareMethod={DiffMethod.WORDS}
+              useDarkTheme={false}
+              styles={{
+                diffContainer: {
+                  fontSize: '13px',
+                },
+              }}
+            />
+          </ScrollArea>
+
+          <Group justify="flex-end" gap="sm">
+            <Button variant="default" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button variant="light" leftSection={<IconLock size={16} />} onClick={handleKeep}>
+              Keep Mine
+            </Button>
+            <Button variant="light" leftSection={<IconGitMerge size={16} />} onClick={handleMerge}>
+              Merge
+            </Button>
+            <Button
+              color="red"
+              leftSection={<IconCloudDownload size={16} />}
+              onClick={handleOverwrite}
+            >
+              Overwrite
+            </Button>
+          </Group>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
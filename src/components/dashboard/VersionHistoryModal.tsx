@@ -0,0 +1,296 @@
+import {
+  Alert,
+  Badge,
+  Button,
+  Center,
+  Grid,
+  Group,
+  Loader,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  TextInput,
+  Timeline,
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import { IconHistory, IconInfoCircle, IconRestore, IconTag } from '@tabler/icons-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
+import { tiptapJsonToBlockLines } from '@/lib/content-diff';
+import { type Document, type DocumentVersion, storage } from '@/lib/storage';
+import {
+  formatVersionDate,
+  restoreVersion,
+  tagVersion,
+  VERSION_REASON_LABELS,
+} from '@/lib/versions';
+
+interface VersionHistoryModalProps {
+  opened: boolean;
+  document: Document;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+// Special values of the "compare with" select besides version ids
+const COMPARE_PREVIOUS = 'previous';
+const COMPARE_CURRENT = 'current';
+
+export function VersionHistoryModal({
+  opened,
+  document,
+  onClose,
+  onRestored,
+}: VersionHistoryModalProps) {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<string>(COMPARE_PREVIOUS);
+  const [taggedOnly, setTaggedOnly] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const loadVersions = useCallback(async () => {
+    try {
+      // Newest first
+      const stored = (await storage.getVersions(document.id)).reverse();
+      setVersions(stored);
+      setSelectedId((current) => current ?? stored[0]?.id ?? null);
+    } catch (error) {
+      setVersions([]);
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load versions',
+        color: 'red',
+      });
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    if (opened) loadVersions();
+  }, [opened, loadVersions]);
+
+  const selectedIndex = versions?.findIndex((version) => version.id === selectedId) ?? -1;
+  const selected = versions && selectedIndex >= 0 ? versions[selectedIndex] : null;
+
+  useEffect(() => {
+    setTagDraft(selected?.tag ?? '');
+  }, [selected?.tag]);
+
+  // Content the selected version is compared against
+  const comparison = useMemo((): { label: string; content: Document['content'] } | null => {
+    if (!versions || !selected) return null;
+    if (compareWith === COMPARE_CURRENT) {
+      return { label: 'Current document', content: document.content };
+    }
+    if (compareWith === COMPARE_PREVIOUS) {
+      const previous = versions[selectedIndex + 1];
+      return previous
+        ? { label: formatVersionDate(previous.createdAt), content: previous.content }
+        : { label: 'Empty document', content: null };
+    }
+    const version = versions.find((item) => item.id === compareWith);
+    return version
+      ? { label: formatVersionDate(version.createdAt), content: version.content }
+      : null;
+  }, [versions, selected, selectedIndex, compareWith, document.content]);
+
+  const selectedLines = useMemo(() => tiptapJsonToBlockLines(selected?.content), [selected]);
+  const comparisonLines = useMemo(() => tiptapJsonToBlockLines(comparison?.content), [comparison]);
+
+  const visibleVersions = (versions ?? []).filter((version) => !taggedOnly || version.tag);
+
+  const compareOptions = [
+    { value: COMPARE_PREVIOUS, label: 'Previous version' },
+    { value: COMPARE_CURRENT, label: 'Current document' },
+    ...(versions ?? [])
+      .filter((version) => version.id !== selectedId)
+      .map((version) => ({
+        value: version.id,
+        label: `${formatVersionDate(version.createdAt)}${version.tag ? ` · ${version.tag}` : ''}`,
+      })),
+  ];
+
+  const handleSaveTag = async () => {
+    if (!selected) return;
+    try {
+      await tagVersion(selected.id, tagDraft);
+      await loadVersions();
+      notifications.show({
+        title: tagDraft.trim() ? 'Version Tagged' : 'Tag Removed',
+        message: tagDraft.trim()
+          ? `Tagged the version from ${formatVersionDate(selected.createdAt)} as "${tagDraft.trim()}"`
+          : `Removed the tag from the version from ${formatVersionDate(selected.createdAt)}`,
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to tag version',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+
+    modals.openConfirmModal({
+      title: 'Restore Version',
+      centered: true,
+      children: (
+        <Text size="sm">
+          Replace the content of <strong>"{document.name}"</strong> with the version from{' '}
+          {formatVersionDate(selected.createdAt)}? The current content stays available in the
+          version history.
+        </Text>
+      ),
+      labels: { confirm: 'Restore', cancel: 'Cancel' },
+      onConfirm: async () => {
+        try {
+          await restoreVersion(selected);
+          notifications.show({
+            title: 'Version Restored',
+            message: `"${document.name}" now has the content from ${formatVersionDate(selected.createdAt)}`,
+            color: 'green',
+          });
+          onRestored();
+          onClose();
+        } catch (error) {
+          notifications.show({
+            title: 'Error',
+            message: error instanceof Error ? error.message : 'Failed to restore version',
+            color: 'red',
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={`Version History: ${document.name}`}
+      size="90%"
+      centered
+    >
+      {versions === null ? (
+        <Center py="xl">
+          <Loader />
+        </Center>
+      ) : versions.length === 0 ? (
+        <Alert icon={<IconInfoCircle size={16} />} color="blue" variant="light">
+          No versions have been recorded yet. A version is saved every time the document's content
+          is saved, enhanced or updated from Confluence.
+        </Alert>
+      ) : (
+        <Grid gutter="lg">
+          <Grid.Col span={4}>
+            <Stack gap="sm">
+              <Switch
+                label="Tagged versions only"
+                checked={taggedOnly}
+                onChange={(event) => setTaggedOnly(event.currentTarget.checked)}
+              />
+              <ScrollArea h="65vh" type="auto">
+                <Timeline
+                  active={visibleVersions.findIndex((version) => version.id === selectedId)}
+                  bulletSize={20}
+                  lineWidth={2}
+                >
+                  {visibleVersions.map((version) => (
+                    <Timeline.Item
+                      key={version.id}
+                      bullet={version.tag ? <IconTag size={12} /> : <IconHistory size={12} />}
+                      title={
+                        <Group gap={6}>
+                          <Text size="sm" fw={version.id === selectedId ? 700 : 500}>
+                            {VERSION_REASON_LABELS[version.reason]}
+                          </Text>
+                          {version.tag && (
+                            <Badge size="xs" variant="light" color="grape">
+                              {version.tag}
+                            </Badge>
+                          )}
+                        </Group>
+                      }
+                      onClick={() => setSelectedId(version.id)}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <Text size="xs" c="dimmed">
+                        {formatVersionDate(version.createdAt)}
+                        {version.author && ` · ${version.author}`}
+                      </Text>
+                      {version.note && (
+                        <Text size="xs" c="dimmed" lineClamp={2}>
+                          {version.note}
+                        </Text>
+                      )}
+                    </Timeline.Item>
+                  ))}
+                </Timeline>
+              </ScrollArea>
+            </Stack>
+          </Grid.Col>
+
+          <Grid.Col span={8}>
+            {selected && comparison && (
+              <Stack gap="md">
+                <Group justify="space-between" align="flex-end">
+                  <Select
+                    label="Compare with"
+                    data={compareOptions}
+                    value={compareWith}
+                    onChange={(value) => setCompareWith(value ?? COMPARE_PREVIOUS)}
+                    allowDeselect={false}
+                    w={320}
+                  />
+                  <Group gap="xs" align="flex-end">
+                    <TextInput
+                      label="Tag"
+                      placeholder="e.g. Reviewed"
+                      value={tagDraft}
+                      onChange={(event) => setTagDraft(event.currentTarget.value)}
+                      maxLength={100}
+                    />
+                    <Button
+                      variant="light"
+                      leftSection={<IconTag size={16} />}
+                      onClick={handleSaveTag}
+                      disabled={tagDraft.trim() === (selected.tag ?? '')}
+                    >
+                      Save Tag
+                    </Button>
+                    <Button leftSection={<IconRestore size={16} />} onClick={handleRestore}>
+                      Restore
+                    </Button>
+                  </Group>
+                </Group>
+
+                <ScrollArea h="55vh" type="auto">
+                  <ReactDiffViewer
+                    oldValue={comparisonLines}
+                    newValue={selectedLines}
+                    splitView
+                    leftTitle={comparison.label}
+                    rightTitle={formatVersionDate(selected.createdAt)}
+                    compareMethod={DiffMethod.WORDS}
+                    useDarkTheme={false}
+                    styles={{
+                      diffContainer: {
+                        fontSize: '13px',
+                      },
+                    }}
+                  />
+                </ScrollArea>
+              </Stack>
+            )}
+          </Grid.Col>
+        </Grid>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,333 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Divider,
+  Group,
+  Paper,
+  Progress,
+  ScrollArea,
+  Stack,
+  Text,
+  Textarea,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconCheck, IconListCheck, IconPlayerStop, IconSparkles, IconX } from '@tabler/icons-react';
+import type { Transaction } from '@tiptap/pm/state';
+import type { Editor } from '@tiptap/react';
+import { useEffect, useRef, useState } from 'react';
+import ReactDiffViewer from 'react-diff-viewer-continued';
+import {
+  applyBatchProposals,
+  type BatchProposal,
+  type BatchProposalStatus,
+  collectBatchProposals,
+  mapBatchProposals,
+  runBatchEnhancement,
+} from '@/lib/batch-enhancement';
+import type { SuggestionDetails } from '@/lib/enhancement-history';
+import type { DocumentMetadata } from '@/lib/storage';
+import { StructureWarningsAlert } from './StructureWarningsAlert';
+
+interface BatchEnhancementPanelProps {
+  editor: Editor;
+  documentName?: string;
+  documentMetadata?: DocumentMetadata;
+  onSuggest: (suggestionId: string, details: SuggestionDetails) => void;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<BatchProposalStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: 'gray' },
+  running: { label: 'Enhancing...', color: 'blue' },
+  ready: { label: 'Ready for review', color: 'violet' },
+  unchanged: { label: 'No changes', color: 'gray' },
+  failed: { label: 'Failed', color: 'red' },
+  accepted: { label: 'Accepted', color: 'green' },
+  rejected: { label: 'Rejected', color: 'orange' },
+  stale: { label: 'Block changed', color: 'yellow' },
+};
+
+export function BatchEnhancementPanel({
+  editor,
+  documentName,
+  documentMetadata,
+  onSuggest,
+  onClose,
+}: BatchEnhancementPanelProps) {
+  const [instructions, setInstructions] = useState('');
+  const [runInstructions, setRunInstructions] = useState(''); // Instructions of the current run
+  const [proposals, setProposals] = useState<BatchProposal[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Keep proposal positions pointing at the same blocks while the document changes
+  useEffect(() => {
+    const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+      if (!transaction.docChanged) return;
+      setProposals((prev) => mapBatchProposals(prev, transaction.mapping));
+    };
+
+    editor.on('transaction', handleTransaction);
+    return () => {
+      editor.off('transaction', handleTransaction);
+    };
+  }, [editor]);
+
+  // Stop scheduling new blocks when the panel unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const updateProposal = (id: string, update: Partial<BatchProposal>) => {
+    setProposals((prev) => prev.map((p) => (p.id === id ? { ...p, ...update } : p)));
+  };
+
+  const handleStart = async () => {
+    const collected = collectBatchProposals(editor);
+    if (collected.length === 0) {
+      notifications.show({
+        title: 'Nothing to Enhance',
+        message: 'The document has no text blocks',
+        color: 'yellow',
+      });
+      return;
+    }
+
+    setProposals(collected);
+    setRunInstructions(instructions.trim());
+    setIsRunning(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      await runBatchEnhancement({
+        proposals: collected,
+        instructions: instructions.trim() || undefined,
+        fullDocumentHtml: editor.getHTML(),
+        documentName,
+        metadata: documentMetadata,
+        signal: abortController.signal,
+        onUpdate: updateProposal,
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const acceptProposals = (toAccept: BatchProposal[]) => {
+    const { applied, stale, invalid } = applyBatchProposals(editor, toAccept);
+
+    for (const proposal of toAccept) {
+      if (!applied.includes(proposal.id)) continue;
+      onSuggest(proposal.id, {
+        source: 'batch',
+        instructions: runInstructions,
+        model: proposal.model,
+        metadata: documentMetadata,
+      });
+    }
+
+    setProposals((prev) =>
+      prev.map((p) => {
+        if (applied.includes(p.id)) return { ...p, status: 'accepted' };
+        if (stale.includes(p.id)) return { ...p, status: 'stale' };
+        if (invalid.includes(p.id)) {
+          return { ...p, status: 'failed', error: 'The proposed HTML is not valid for this block' };
+        }
+        return p;
+      })
+    );
+
+    if (stale.length > 0) {
+      notifications.show({
+        title: 'Some Proposals Skipped',
+        message: `${stale.length} block${stale.length !== 1 ? 's were' : ' was'} edited after enhancement and left unchanged`,
+        color: 'yellow',
+      });
+    }
+    if (invalid.length > 0) {
+      notifications.show({
+        title: 'Some Proposals Not Applied',
+        message: `${invalid.length} proposal${invalid.length !== 1 ? 's were' : ' was'} not valid content for ${invalid.length !== 1 ? 'their blocks' : 'its block'} and left out`,
+        color: 'orange',
+      });
+    }
+  };
+
+  const rejectProposals = (toReject: BatchProposal[]) => {
+    const ids = toReject.map((p) => p.id);
+    setProposals((prev) =>
+      prev.map((p) => (ids.includes(p.id) ? { ...p, status: 'rejected' } : p))
+    );
+  };
+
+  const readyProposals = proposals.filter((p) => p.status === 'ready');
+  const processedCount = proposals.filter(
+    (p) => p.status !== 'queued' && p.status !== 'running'
+  ).length;
+  const progress = proposals.length > 0 ? (processedCount / proposals.length) * 100 : 0;
+
+  return (
+    <Stack h="100%" gap="md" p="md" style={{ overflow: 'hidden' }}>
+      {/* Header */}
+      <Group justify="space-between">
+        <Group gap="xs">
+          <IconListCheck size={20} />
+          <Text fw={600} size="lg">
+            Enhance Whole Document
+          </Text>
+        </Group>
+        <ActionIcon variant="subtle" onClick={onClose}>
+          <IconX size={18} />
+        </ActionIcon>
+      </Group>
+
+      <Divider />
+
+      {/* Instructions */}
+      <Textarea
+        label="Instructions for every block"
+        placeholder="E.g., Fix grammar, Convert to imperative voice... (leave empty for a general enhancement)"
+        minRows={2}
+        value={instructions}
+        disabled={isRunning}
+        onChange={(e) => setInstructions(e.currentTarget.value)}
+      />
+
+      <Group gap="sm">
+        {isRunning ? (
+          <Button
+            flex={1}
+            variant="light"
+            color="red"
+            leftSection={<IconPlayerStop size={16} />}
+            onClick={handleCancel}
+          >
+            Cancel
+          </Button>
+        ) : (
+          <Button flex={1} leftSection={<IconSparkles size={16} />} onClick={handleStart}>
+            {proposals.length > 0 ? 'Run Again' : 'Start'}
+          </Button>
+        )}
+      </Group>
+
+      {/* Progress */}
+      {proposals.length > 0 && (
+        <Stack gap={4}>
+          <Group justify="space-between">
+            <Text size="xs" c="dimmed">
+              {processedCount} / {proposals.length} blocks processed
+            </Text>
+            <Text size="xs" c="dimmed">
+              {readyProposals.length} ready for review
+            </Text>
+          </Group>
+          <Progress value={progress} animated={isRunning} />
+        </Stack>
+      )}
+
+      {/* Bulk actions */}
+      {readyProposals.length > 0 && (
+        <Group gap="sm">
+          <Button
+            flex={1}
+            size="xs"
+            color="green"
+            leftSection={<IconCheck size={14} />}
+            onClick={() => acceptProposals(readyProposals)}
+          >
+            Accept All ({readyProposals.length})
+          </Button>
+          <Button
+            flex={1}
+            size="xs"
+            variant="light"
+            color="red"
+            leftSection={<IconX size={14} />}
+            onClick={() => rejectProposals(readyProposals)}
+          >
+            Reject All
+          </Button>
+        </Group>
+      )}
+
+      {/* Proposal queue */}
+      <ScrollArea style={{ flex: 1 }} type="auto">
+        <Stack gap="sm">
+          {proposals.map((proposal) => {
+            const badge = STATUS_BADGES[proposal.status];
+
+            return (
+              <Paper key={proposal.id} p="sm" withBorder>
+                <Group justify="space-between" mb="xs" wrap="nowrap">
+                  <Text size="sm" lineClamp={1} style={{ flex: 1 }}>
+                    {proposal.originalText}
+                  </Text>
+                  <Badge size="sm" color={badge.color} variant="light">
+                    {badge.label}
+                  </Badge>
+                </Group>
+
+                {proposal.status === 'failed' && proposal.error && (
+                  <Text size="xs" c="red">
+                    {proposal.error}
+                  </Text>
+                )}
+
+                {proposal.status === 'ready' && proposal.proposedHtml && (
+                  <>
+                    {proposal.warnings && (
+                      <div style={{ marginBottom: '0.5rem' }}>
+                        <StructureWarningsAlert warnings={proposal.warnings} />
+                      </div>
+                    )}
+                    <ReactDiffViewer
+                      oldValue={proposal.originalHtml}
+                      newValue={proposal.proposedHtml}
+                      splitView={false}
+                      useDarkTheme={false}
+                      hideLineNumbers
+                      showDiffOnly={false}
+                      styles={{
+                        diffContainer: {
+                          fontSize: '13px',
+                        },
+                      }}
+                    />
+                    <Group gap="xs" mt="xs">
+                      <Button
+                        size="xs"
+                        color="green"
+                        leftSection={<IconCheck size={14} />}
+                        onClick={() => acceptProposals([proposal])}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="xs"
+                        variant="light"
+                        color="red"
+                        leftSection={<IconX size={14} />}
+                        onClick={() => rejectProposals([proposal])}
+                      >
+                        Reject
+                      </Button>
+                    </Group>
+                  </>
+                )}
+              </Paper>
+            );
+          })}
+        </Stack>
+      </ScrollArea>
+    </Stack>
+  );
+}
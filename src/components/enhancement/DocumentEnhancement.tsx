@@ -4,49 +4,122 @@
  * Uses Tiptap editor with custom floating menu for text enhancement
  */
 
-import { Paper, Stack, Text, Badge, Button, Group } from '@mantine/core';
+import { Paper, Stack, Text, Badge, Button, Group, Alert } from '@mantine/core';
 import { useState, useEffect, useRef } from 'react';
 import { notifications } from '@mantine/notifications';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, type JSONContent } from '@tiptap/react';
 import { createPortal } from 'react-dom';
-import { IconSparkles, IconEdit } from '@tabler/icons-react';
+import {
+  IconSparkles,
+  IconEdit,
+  IconListCheck,
+  IconCheck,
+  IconX,
+  IconDeviceFloppy,
+  IconHistory,
+  IconRestore,
+  IconRefresh,
+} from '@tabler/icons-react';
 
 import { getTiptapExtensions } from '@/lib/tiptap-config';
-import { extractSelectionContext, hasSelection } from '@/lib/tiptap-helpers';
-import { enhanceContent } from '@/lib/api-client';
+import {
+  extractSelectionContext,
+  hasSelection,
+  type SelectionContext,
+  type TrackedBlockRange,
+  trackBlockRange,
+} from '@/lib/tiptap-helpers';
+import {
+  getSuggestionAtSelection,
+  getSuggestionBlocks,
+  getSuggestionIds,
+  getSuggestionRange,
+} from '@/lib/suggestions';
+import { describeApiError, enhanceContent } from '@/lib/api-client';
+import { recordEnhancement, type SuggestionDetails } from '@/lib/enhancement-history';
+import { describeAiStep, isCoveredByAiStep } from '@/lib/ai-history';
+import { clearDraft, type DocumentDraft, getDraft, saveDraft } from '@/lib/drafts';
+import { BatchEnhancementPanel } from './BatchEnhancementPanel';
+import { EnhancementHistoryPanel } from './EnhancementHistoryPanel';
 import { EnhancementSidePanel } from './EnhancementSidePanel';
-import type { DocumentMetadata } from '@/lib/storage';
+import { UndoHistoryMenu } from './UndoHistoryMenu';
+import type { DocumentMetadata, VersionReason } from '@/lib/storage';
 
 interface DocumentEnhancementProps {
+  documentId: string;
   contentJson: any; // Tiptap JSON content
   documentName: string;
   documentMetadata?: DocumentMetadata; // AI-generated metadata for context-aware enhancements
   onOpenSidePanel: () => void;
   onCloseSidePanel: () => void;
+  lastSavedAt: string; // When the document was last saved, to tell whether a leftover draft is newer
+  onSave: (contentJson: JSONContent, reason: VersionReason) => Promise<void>; // Persists and snapshots a version
+  onAutosave: (contentJson: JSONContent) => Promise<void>; // Persists without a version snapshot
+  onDirtyChange: (dirty: boolean) => void;
 }
 
+/**
+ * Whether the editor content has reached the document store
+ */
+type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'failed';
+
+const SAVE_STATUS_BADGES: Record<SaveStatus, { label: string; color: string }> = {
+  saved: { label: 'All changes saved', color: 'green' },
+  unsaved: { label: 'Unsaved changes', color: 'yellow' },
+  saving: { label: 'Saving...', color: 'blue' },
+  failed: { label: 'Autosave failed', color: 'red' },
+};
+
+const AUTOSAVE_DELAY_MS = 2000;
+const DRAFT_DELAY_MS = 500;
+
 export function DocumentEnhancement({
+  documentId,
   contentJson,
   documentName,
   documentMetadata,
   onOpenSidePanel,
   onCloseSidePanel,
+  lastSavedAt,
+  onSave,
+  onAutosave,
+  onDirtyChange,
 }: DocumentEnhancementProps) {
   // Use Tiptap JSON directly
   const initialContent = contentJson;
 
   const [showSidePanel, setShowSidePanel] = useState(false);
-  const [selectionContext, setSelectionContext] = useState<{
-    selectedText: string;
-    parentNodeHtml: string;
-    from: number;
-    to: number;
-  } | null>(null);
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [historyRevision, setHistoryRevision] = useState(0);
+  const [selectionContext, setSelectionContext] = useState<SelectionContext | null>(null);
   const [enhancing, setEnhancing] = useState(false);
   const [showFloatingMenu, setShowFloatingMenu] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
+  const [pendingSuggestionIds, setPendingSuggestionIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  // A draft left behind by a crash or a closed tab, offered for restoring when the editor opens
+  const [recoveredDraft, setRecoveredDraft] = useState<DocumentDraft | null>(() => {
+    const draft = getDraft(documentId);
+    return draft && draft.savedAt > lastSavedAt ? draft : null;
+  });
+  const [suggestionMenu, setSuggestionMenu] = useState<{
+    suggestionId: string;
+    top: number;
+    left: number;
+  } | null>(null);
 
   const asideRef = useRef<HTMLElement | null>(null);
+  // How each pending suggestion was made, recorded in the history once it is resolved
+  const suggestionDetailsRef = useRef(new Map<string, SuggestionDetails>());
+  // Edits are counted so a save only marks the document saved if nothing changed meanwhile
+  const editCountRef = useRef(0);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const draftTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const autosaveRef = useRef<() => void>(() => {});
+  // Where the side panel's selection is now, while its enhancement is reviewed
+  const selectionRangeRef = useRef<TrackedBlockRange | null>(null);
 
   // Initialize Tiptap editor
   const editor = useEditor({
@@ -64,10 +137,6 @@ export function DocumentEnhancement({
         `,
       },
     },
-    onUpdate: ({ editor }) => {
-      // Persist changes (you can add autosave here)
-      console.log('Document updated:', editor.getJSON());
-    },
   });
 
   // Find the AppShell.Aside element for side panel
@@ -111,10 +180,143 @@ export function DocumentEnhancement({
     };
   }, [editor]);
 
+  // Track pending suggestions and show accept/reject controls when the cursor is inside one
+  useEffect(() => {
+    if (!editor) return;
+
+    const updateSuggestions = () => {
+      setPendingSuggestionIds(getSuggestionIds(editor.state.doc));
+
+      const { empty, from } = editor.state.selection;
+      const suggestionId = empty ? getSuggestionAtSelection(editor.state) : null;
+      if (!suggestionId) {
+        setSuggestionMenu(null);
+        return;
+      }
+
+      const coords = editor.view.coordsAtPos(from);
+      setSuggestionMenu({ suggestionId, top: coords.top - 50, left: coords.left });
+    };
+
+    updateSuggestions();
+    editor.on('transaction', updateSuggestions);
+
+    return () => {
+      editor.off('transaction', updateSuggestions);
+    };
+  }, [editor]);
+
+  // Autosave edits once typing pauses, keeping a local draft until they are saved
+  useEffect(() => {
+    if (!editor) return;
+
+    const handleUpdate = () => {
+      editCountRef.current += 1;
+      setSaveStatus('unsaved');
+
+      if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
+      draftTimerRef.current = setTimeout(
+        () => saveDraft(documentId, editor.getJSON()),
+        DRAFT_DELAY_MS
+      );
+
+      if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = setTimeout(() => autosaveRef.current(), AUTOSAVE_DELAY_MS);
+    };
+
+    editor.on('update', handleUpdate);
+
+    return () => {
+      editor.off('update', handleUpdate);
+      if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
+      if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    };
+  }, [editor, documentId]);
+
+  // Warn before closing the tab with unsaved changes; the draft is written right away in case it closes
+  useEffect(() => {
+    if (!editor || saveStatus === 'saved') return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      saveDraft(documentId, editor.getJSON());
+      event.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [editor, documentId, saveStatus]);
+
+  useEffect(() => {
+    onDirtyChange(saveStatus !== 'saved');
+  }, [saveStatus, onDirtyChange]);
+
+  // Follow the side panel's selection while its enhancement is generated and reviewed
+  useEffect(() => {
+    if (!editor || !selectionContext) return;
+
+    const tracked = trackBlockRange(editor, selectionContext);
+    selectionRangeRef.current = tracked;
+    return () => {
+      tracked.stop();
+      selectionRangeRef.current = null;
+    };
+  }, [editor, selectionContext]);
+
+  /**
+   * Propose AI-generated HTML as a tracked change to the blocks a selection covered
+   * Returns the suggestion id, or null (after telling the user) when the blocks
+   * were edited meanwhile or the HTML isn't valid content for that place.
+   */
+  const proposeEnhancement = (
+    range: { from: number; to: number } | null,
+    html: string,
+    action: string
+  ): string | null => {
+    if (!editor) return null;
+
+    if (!range) {
+      notifications.show({
+        title: 'Text Changed',
+        message:
+          'The selected text was edited while it was being enhanced, so the suggestion was discarded. Select it again to retry.',
+        color: 'yellow',
+      });
+      return null;
+    }
+
+    // The API returns the full HTML of the blocks, so they are replaced as a whole
+    const suggestionId = crypto.randomUUID();
+    const applied = editor
+      .chain()
+      .focus()
+      .labelAiStep(describeAiStep(action, editor.state.doc, range.from))
+      .suggestReplacement({ from: range.from, to: range.to, html, suggestionId })
+      .run();
+
+    if (!applied) {
+      notifications.show({
+        title: 'Suggestion Not Applied',
+        message:
+          "The AI response isn't valid content for this part of the document, so the text was left unchanged. Please try again.",
+        color: 'orange',
+      });
+      return null;
+    }
+
+    notifications.show({
+      title: 'Suggestion Added',
+      message: 'Review the highlighted changes and accept or reject them.',
+      color: 'green',
+    });
+    return suggestionId;
+  };
+
   /**
-   * Handle auto-enhancement (quick enhance without custom instructions)
+   * Enhance the selected block right away, with optional instructions
+   * Used by quick enhance (no instructions), when re-applying a past instruction
+   * and to try a suggestion again (bypassing the server's response cache)
    */
-  const handleAutoEnhance = async () => {
+  const enhanceSelection = async (instructions?: string, bypassCache = false) => {
     if (!editor) return;
 
     setEnhancing(true);
@@ -135,33 +337,55 @@ export function DocumentEnhancement({
       });
 
       // Call enhancement API with metadata for context-aware enhancement
-      const result = await enhanceContent({
-        fullDocumentHtml,
-        targetBlockHtml: context.parentNodeHtml,
-        documentName,
-        metadata: documentMetadata,
-      });
-
-      // Replace the parent node with enhanced HTML
-      // Note: We need to replace the entire parent node since the API returns full node HTML
-      const { from, to } = context;
-
-      // Delete current parent node and insert enhanced one
-      editor.chain().focus().deleteRange({ from: from - context.selectedText.length, to }).insertContentAt(from - context.selectedText.length, result.newHtml).run();
+      // The blocks are followed through edits made while the request runs
+      const tracked = trackBlockRange(editor, context);
+      let result: Awaited<ReturnType<typeof enhanceContent>>;
+      try {
+        result = await enhanceContent({
+          fullDocumentHtml,
+          targetBlockHtml: context.parentNodeHtml,
+          instructions,
+          documentName,
+          metadata: documentMetadata,
+          bypassCache,
+        });
+      } finally {
+        tracked.stop();
+      }
 
-      notifications.show({
-        title: 'Text Enhanced',
-        message: 'The selected text has been enhanced.',
-        color: 'green',
-      });
+      const suggestionId = proposeEnhancement(
+        tracked.current(),
+        result.newHtml,
+        instructions ? 'Re-applied Enhancement' : 'Auto Enhance'
+      );
+      if (suggestionId) {
+        suggestionDetailsRef.current.set(suggestionId, {
+          source: instructions ? 'custom' : 'auto',
+          instructions: instructions ?? '',
+          model: result.model,
+          metadata: documentMetadata,
+        });
+      }
+      if (suggestionId && result.warnings) {
+        notifications.show({
+          title: 'Check the Suggestion',
+          message: `The suggestion doesn't keep everything from the original: ${result.warnings.join('; ')}`,
+          color: 'orange',
+          autoClose: false,
+        });
+      }
 
       // Clear selection
       editor.commands.blur();
     } catch (error) {
       console.error('Auto enhancement failed:', error);
-      notifications.show({
+      const { title, message } = describeApiError(error, {
         title: 'Enhancement Failed',
-        message: error instanceof Error ? error.message : 'Failed to enhance content',
+        message: 'Failed to enhance content',
+      });
+      notifications.show({
+        title,
+        message,
         color: 'red',
       });
     } finally {
@@ -188,26 +412,70 @@ export function DocumentEnhancement({
 
     // Store context and open side panel
     setSelectionContext(context);
+    setShowBatchPanel(false);
+    setShowHistoryPanel(false);
     setShowSidePanel(true);
     onOpenSidePanel();
   };
 
+  /**
+   * Open the whole-document batch enhancement panel
+   */
+  const handleOpenBatchPanel = () => {
+    setShowSidePanel(false);
+    setShowHistoryPanel(false);
+    setSelectionContext(null);
+    setShowBatchPanel(true);
+    onOpenSidePanel();
+  };
+
+  /**
+   * Close the batch enhancement panel
+   */
+  const handleCloseBatchPanel = () => {
+    setShowBatchPanel(false);
+    onCloseSidePanel();
+  };
+
+  /**
+   * Open the enhancement history of this document
+   */
+  const handleOpenHistoryPanel = () => {
+    setShowSidePanel(false);
+    setShowBatchPanel(false);
+    setSelectionContext(null);
+    setShowHistoryPanel(true);
+    onOpenSidePanel();
+  };
+
+  const handleCloseHistoryPanel = () => {
+    setShowHistoryPanel(false);
+    onCloseSidePanel();
+  };
+
   /**
    * Handle accepting custom enhancement from side panel
    */
-  const handleAcceptEnhancement = (_originalText: string, enhancedText: string) => {
+  const handleAcceptEnhancement = (
+    enhancedText: string,
+    details: { instructions: string; model: string }
+  ) => {
     if (!editor || !selectionContext) return;
 
     try {
-      // Replace content in editor
-      const { from, to } = selectionContext;
-      editor.chain().focus().deleteRange({ from, to }).insertContentAt(from, enhancedText).run();
-
-      notifications.show({
-        title: 'Enhancement Applied',
-        message: 'The custom enhancement has been applied.',
-        color: 'green',
-      });
+      // Add the enhancement to the document as a tracked change
+      const suggestionId = proposeEnhancement(
+        selectionRangeRef.current?.current() ?? null,
+        enhancedText,
+        'Custom Enhance'
+      );
+      if (suggestionId) {
+        suggestionDetailsRef.current.set(suggestionId, {
+          source: 'custom',
+          ...details,
+          metadata: documentMetadata,
+        });
+      }
 
       // Close side panel
       handleCloseSidePanel();
@@ -242,6 +510,194 @@ export function DocumentEnhancement({
     setSelectionContext(null);
   };
 
+  /**
+   * Write the editor content with the given save function
+   * The document only counts as saved if it wasn't edited while the save was running;
+   * otherwise the autosave scheduled by that edit picks it up.
+   */
+  const persistContent = async (save: (contentJson: JSONContent) => Promise<void>) => {
+    if (!editor) return;
+
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    const editCount = editCountRef.current;
+    setSaveStatus('saving');
+    try {
+      await save(editor.getJSON());
+    } catch (error) {
+      setSaveStatus('failed');
+      throw error;
+    }
+
+    if (editCountRef.current === editCount) {
+      if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
+      clearDraft(documentId);
+      setSaveStatus('saved');
+    } else {
+      setSaveStatus('unsaved');
+    }
+  };
+
+  autosaveRef.current = () => {
+    persistContent(onAutosave).catch((error) => console.error('Autosave failed:', error));
+  };
+
+  /**
+   * Save the editor content as a new version
+   * Accepted enhancements are saved right away so each one can be restored.
+   */
+  const saveDocument = async (reason: VersionReason) => {
+    if (!editor) return;
+
+    setSaving(true);
+    try {
+      await persistContent((content) => onSave(content, reason));
+      if (reason === 'save') {
+        notifications.show({
+          title: 'Document Saved',
+          message: `"${documentName}" has been saved`,
+          color: 'green',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to save document:', error);
+      notifications.show({
+        title: 'Save Failed',
+        message: error instanceof Error ? error.message : 'Failed to save document',
+        color: 'red',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Record resolved suggestions in the enhancement history
+   * The affected blocks must be captured before the suggestions are resolved.
+   */
+  const recordResolvedSuggestions = (
+    resolved: Array<{ id: string; blocks: ReturnType<typeof getSuggestionBlocks> }>,
+    accept: boolean
+  ) => {
+    for (const { id, blocks } of resolved) {
+      const details = suggestionDetailsRef.current.get(id);
+      suggestionDetailsRef.current.delete(id);
+      if (!blocks) continue;
+
+      recordEnhancement(documentId, accept ? 'accepted' : 'rejected', blocks, details)
+        .then((record) => {
+          if (record) setHistoryRevision((value) => value + 1);
+        })
+        .catch((error) => console.error('Failed to record enhancement:', error));
+    }
+  };
+
+  const captureSuggestions = (ids: string[]) =>
+    editor ? ids.map((id) => ({ id, blocks: getSuggestionBlocks(editor.state, id) })) : [];
+
+  /**
+   * Accept or reject tracked changes in one step
+   * Accepting suggestions made by an AI step of this session is folded into
+   * that step, so one undo reverts the whole enhancement. Others (e.g. saved
+   * with the document) are resolved as a regular, undoable edit, like rejections.
+   */
+  const resolveSuggestionIds = (ids: string[], accept: boolean) => {
+    if (!editor) return;
+
+    const folded = accept
+      ? ids.filter((id) => {
+          const range = getSuggestionRange(editor.state.doc, id);
+          return !!range && isCoveredByAiStep(editor.state, range);
+        })
+      : [];
+    const groups = [
+      { ids: folded, fold: true },
+      { ids: ids.filter((id) => !folded.includes(id)), fold: false },
+    ];
+
+    for (const group of groups) {
+      if (group.ids.length === 0) continue;
+      let chain = editor.chain().focus();
+      if (group.fold) chain = chain.foldIntoAiSteps();
+      for (const id of group.ids) {
+        chain = accept ? chain.acceptSuggestion(id) : chain.rejectSuggestion(id);
+      }
+      chain.run();
+    }
+  };
+
+  /**
+   * Resolve a single tracked change
+   */
+  const handleResolveSuggestion = (suggestionId: string, accept: boolean) => {
+    if (!editor) return;
+
+    const resolved = captureSuggestions([suggestionId]);
+    resolveSuggestionIds([suggestionId], accept);
+    if (accept) saveDocument('enhancement');
+    recordResolvedSuggestions(resolved, accept);
+  };
+
+  /**
+   * Reject a suggestion and ask for a fresh one for the same text
+   */
+  const handleRetrySuggestion = (suggestionId: string) => {
+    if (!editor) return;
+
+    const range = getSuggestionRange(editor.state.doc, suggestionId);
+    if (!range) return;
+
+    const instructions = suggestionDetailsRef.current.get(suggestionId)?.instructions;
+    const resolved = captureSuggestions([suggestionId]);
+    // Select the original text that rejecting puts back, so it is enhanced again
+    editor
+      .chain()
+      .focus()
+      .rejectSuggestion(suggestionId)
+      .command(({ tr, commands }) =>
+        commands.setTextSelection({
+          from: tr.mapping.map(range.from, 1),
+          to: tr.mapping.map(range.to, -1),
+        })
+      )
+      .run();
+    recordResolvedSuggestions(resolved, false);
+
+    enhanceSelection(instructions || undefined, true);
+  };
+
+  /**
+   * Resolve every pending tracked change at once
+   */
+  const handleResolveAllSuggestions = (accept: boolean) => {
+    if (!editor) return;
+
+    const count = pendingSuggestionIds.length;
+    const resolved = captureSuggestions(pendingSuggestionIds);
+    resolveSuggestionIds(pendingSuggestionIds, accept);
+    if (accept) saveDocument('enhancement');
+    recordResolvedSuggestions(resolved, accept);
+
+    notifications.show({
+      title: accept ? 'Suggestions Accepted' : 'Suggestions Rejected',
+      message: `${count} suggestion${count !== 1 ? 's' : ''} ${accept ? 'applied to' : 'removed from'} the document`,
+      color: accept ? 'green' : 'blue',
+    });
+  };
+
+  /**
+   * Replace the editor content with the recovered draft; the change is autosaved like any edit
+   */
+  const handleRestoreDraft = () => {
+    if (!editor || !recoveredDraft) return;
+    editor.commands.setContent(recoveredDraft.content);
+    setRecoveredDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (saveStatus === 'saved') clearDraft(documentId);
+    setRecoveredDraft(null);
+  };
+
   if (!editor) {
     return <div>Loading editor...</div>;
   }
@@ -260,14 +716,99 @@ export function DocumentEnhancement({
       >
         <Stack gap="md" h="100%">
           {/* Document Header */}
-          <div>
-            <Text size="xl" fw={700} mb="xs">
-              {documentName}
-            </Text>
-            <Badge color="blue" variant="light">
-              Select text to enhance
-            </Badge>
-          </div>
+          <Group justify="space-between" align="flex-start">
+            <div>
+              <Text size="xl" fw={700} mb="xs">
+                {documentName}
+              </Text>
+              <Group gap="xs">
+                <Badge color="blue" variant="light">
+                  Select text to enhance
+                </Badge>
+                <Badge color={SAVE_STATUS_BADGES[saveStatus].color} variant="dot">
+                  {SAVE_STATUS_BADGES[saveStatus].label}
+                </Badge>
+              </Group>
+            </div>
+            <Group gap="xs">
+              <UndoHistoryMenu editor={editor} />
+              {pendingSuggestionIds.length > 0 && (
+                <>
+                  <Badge color="violet" variant="light">
+                    {pendingSuggestionIds.length} pending suggestion
+                    {pendingSuggestionIds.length !== 1 ? 's' : ''}
+                  </Badge>
+                  <Button
+                    size="xs"
+                    variant="light"
+                    color="green"
+                    leftSection={<IconCheck size={14} />}
+                    onClick={() => handleResolveAllSuggestions(true)}
+                  >
+                    Accept All
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="light"
+                    color="red"
+                    leftSection={<IconX size={14} />}
+                    onClick={() => handleResolveAllSuggestions(false)}
+                  >
+                    Reject All
+                  </Button>
+                </>
+              )}
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<IconListCheck size={14} />}
+                onClick={handleOpenBatchPanel}
+                disabled={showBatchPanel}
+              >
+                Enhance Whole Document
+              </Button>
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<IconHistory size={14} />}
+                onClick={handleOpenHistoryPanel}
+                disabled={showHistoryPanel}
+              >
+                History
+              </Button>
+              <Button
+                size="xs"
+                leftSection={<IconDeviceFloppy size={14} />}
+                onClick={() => saveDocument('save')}
+                loading={saving}
+              >
+                Save
+              </Button>
+            </Group>
+          </Group>
+
+          {recoveredDraft && (
+            <Alert color="yellow" variant="light" title="Unsaved changes found">
+              <Text size="sm" mb="sm">
+                This document has changes from{' '}
+                {new Date(recoveredDraft.savedAt).toLocaleString('en-US')} that were never saved,
+                probably because the browser closed before they could be.
+              </Text>
+              <Group gap="xs">
+                <Button
+                  size="xs"
+                  color="yellow"
+                  leftSection={<IconRestore size={14} />}
+                  onClick={handleRestoreDraft}
+                >
+                  Restore Changes
+                </Button>
+                <Button size="xs" variant="subtle" color="gray" onClick={handleDiscardDraft}>
+                  Discard
+                </Button>
+              </Group>
+            </Alert>
+          )}
 
           {/* Tiptap Editor with Custom Floating Menu */}
           <div style={{ flex: 1, position: 'relative' }}>
@@ -299,7 +840,7 @@ export function DocumentEnhancement({
                     variant="filled"
                     color="blue"
                     leftSection={<IconSparkles size={14} />}
-                    onClick={handleAutoEnhance}
+                    onClick={() => enhanceSelection()}
                     loading={enhancing}
                   >
                     Auto Enhance
@@ -317,6 +858,58 @@ export function DocumentEnhancement({
               </div>
             )}
 
+            {/* Accept/Reject controls for the suggestion under the cursor */}
+            {suggestionMenu && !showFloatingMenu && (
+              <div
+                style={{
+                  position: 'fixed',
+                  top: suggestionMenu.top,
+                  left: suggestionMenu.left,
+                  zIndex: 1000,
+                  pointerEvents: 'auto',
+                }}
+              >
+                <Group
+                  gap="xs"
+                  style={{
+                    backgroundColor: 'var(--mantine-color-dark-7)',
+                    padding: '0.5rem',
+                    borderRadius: '8px',
+                    boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+                  }}
+                >
+                  <Button
+                    size="xs"
+                    variant="filled"
+                    color="green"
+                    leftSection={<IconCheck size={14} />}
+                    onClick={() => handleResolveSuggestion(suggestionMenu.suggestionId, true)}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="filled"
+                    color="red"
+                    leftSection={<IconX size={14} />}
+                    onClick={() => handleResolveSuggestion(suggestionMenu.suggestionId, false)}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="filled"
+                    color="gray"
+                    leftSection={<IconRefresh size={14} />}
+                    onClick={() => handleRetrySuggestion(suggestionMenu.suggestionId)}
+                    disabled={enhancing}
+                  >
+                    Try Again
+                  </Button>
+                </Group>
+              </div>
+            )}
+
             {/* Add Tiptap Styles */}
             <style dangerouslySetInnerHTML={{ __html: `
               /* Table styling */
@@ -413,6 +1006,110 @@ export function DocumentEnhancement({
                 margin-bottom: 1rem;
               }
 
+              /* Track-changes suggestion styling */
+              .tiptap-editor-content ins.suggestion-insertion {
+                background-color: var(--mantine-color-green-1);
+                color: var(--mantine-color-green-9);
+                text-decoration: underline;
+              }
+
+              .tiptap-editor-content del.suggestion-deletion {
+                background-color: var(--mantine-color-red-1);
+                color: var(--mantine-color-red-9);
+                text-decoration: line-through;
+              }
+
+              .tiptap-editor-content [data-suggestion='insertion'] {
+                outline: 2px solid var(--mantine-color-green-5);
+              }
+
+              .tiptap-editor-content [data-suggestion='deletion'] {
+                outline: 2px dashed var(--mantine-color-red-5);
+                opacity: 0.6;
+              }
+
+              /* Confluence macro styling */
+              .tiptap-editor-content .confluence-panel,
+              .tiptap-editor-content .confluence-expand {
+                border-left: 4px solid var(--mantine-color-blue-5);
+                background-color: var(--mantine-color-blue-0);
+                border-radius: 4px;
+                padding: 0.75rem 1rem;
+                margin: 1rem 0;
+              }
+
+              .tiptap-editor-content .confluence-panel[data-panel="note"] {
+                border-left-color: var(--mantine-color-violet-5);
+                background-color: var(--mantine-color-violet-0);
+              }
+
+              .tiptap-editor-content .confluence-panel[data-panel="warning"] {
+                border-left-color: var(--mantine-color-red-5);
+                background-color: var(--mantine-color-red-0);
+              }
+
+              .tiptap-editor-content .confluence-panel[data-panel="tip"] {
+                border-left-color: var(--mantine-color-green-5);
+                background-color: var(--mantine-color-green-0);
+              }
+
+              .tiptap-editor-content .confluence-expand {
+                border-left-color: var(--mantine-color-gray-5);
+                background-color: var(--mantine-color-gray-0);
+              }
+
+              .tiptap-editor-content .confluence-panel[data-title]::before,
+              .tiptap-editor-content .confluence-expand::before {
+                content: attr(data-title);
+                display: block;
+                font-weight: 600;
+                margin-bottom: 0.5rem;
+              }
+
+              .tiptap-editor-content .confluence-status {
+                display: inline-block;
+                padding: 0 0.4rem;
+                border-radius: 3px;
+                font-size: 0.75rem;
+                font-weight: 700;
+                text-transform: uppercase;
+                background-color: var(--mantine-color-gray-2);
+              }
+
+              .tiptap-editor-content .confluence-status[data-colour="Green"] {
+                background-color: var(--mantine-color-green-2);
+              }
+
+              .tiptap-editor-content .confluence-status[data-colour="Red"] {
+                background-color: var(--mantine-color-red-2);
+              }
+
+              .tiptap-editor-content .confluence-status[data-colour="Yellow"] {
+                background-color: var(--mantine-color-yellow-2);
+              }
+
+              .tiptap-editor-content .confluence-status[data-colour="Blue"] {
+                background-color: var(--mantine-color-blue-2);
+              }
+
+              .tiptap-editor-content .confluence-jira {
+                color: var(--mantine-color-blue-7);
+                font-weight: 500;
+              }
+
+              .tiptap-editor-content .confluence-macro {
+                border: 1px dashed var(--mantine-color-gray-5);
+                border-radius: 4px;
+                color: var(--mantine-color-gray-7);
+                font-size: 0.875rem;
+                padding: 0 0.4rem;
+              }
+
+              .tiptap-editor-content div.confluence-macro {
+                padding: 0.5rem 0.75rem;
+                margin: 1rem 0;
+              }
+
               /* Focus styling */
               .tiptap-editor-content:focus {
                 outline: none;
@@ -436,6 +1133,37 @@ export function DocumentEnhancement({
         />,
         asideRef.current
       )}
+
+      {/* Render batch enhancement panel in the aside container */}
+      {showBatchPanel &&
+        asideRef.current &&
+        createPortal(
+          <BatchEnhancementPanel
+            editor={editor}
+            documentName={documentName}
+            documentMetadata={documentMetadata}
+            onSuggest={(suggestionId, details) =>
+              suggestionDetailsRef.current.set(suggestionId, details)
+            }
+            onClose={handleCloseBatchPanel}
+          />,
+          asideRef.current
+        )}
+
+      {/* Render enhancement history in the aside container */}
+      {showHistoryPanel &&
+        asideRef.current &&
+        createPortal(
+          <EnhancementHistoryPanel
+            editor={editor}
+            documentId={documentId}
+            revision={historyRevision}
+            onReapply={(instructions) => enhanceSelection(instructions || undefined)}
+            onReverted={() => saveDocument('restore')}
+            onClose={handleCloseHistoryPanel}
+          />,
+          asideRef.current
+        )}
     </>
   );
 }
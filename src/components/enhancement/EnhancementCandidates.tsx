@@ -0,0 +1,179 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Group,
+  Paper,
+  ScrollArea,
+  Stack,
+  Text,
+  Tooltip,
+} from '@mantine/core';
+import { IconCheck, IconPlus } from '@tabler/icons-react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import { useMemo, useState } from 'react';
+import ReactDiffViewer from 'react-diff-viewer-continued';
+import type { CandidateStyle, EnhanceCandidate } from '@/lib/api-client';
+import { getTiptapExtensions } from '@/lib/tiptap-config';
+import { checkEnhancedStructure } from '../../../api/utils/structure-check';
+import { StructureWarningsAlert } from './StructureWarningsAlert';
+
+export const CANDIDATE_STYLE_LABELS: Record<CandidateStyle, string> = {
+  standard: 'Standard',
+  concise: 'Concise',
+  detailed: 'Detailed',
+  friendly: 'Friendlier',
+};
+
+interface EnhancementCandidatesProps {
+  originalHtml: string;
+  candidates: EnhanceCandidate[];
+  keyTerms?: string[];
+  onComposedChange: (html: string) => void;
+}
+
+// Closing tags after which text continues on a new line
+const BLOCK_END_PATTERN = /<\/(p|li|td|th|h[1-6]|pre|blockquote)>/gi;
+
+/**
+ * Alternative enhancements side by side, each with its diff against the original
+ * The result starts as the first candidate; the writer can switch it to
+ * another candidate, insert single sentences from any of them at the cursor,
+ * and edit it freely before accepting.
+ */
+export function EnhancementCandidates({
+  originalHtml,
+  candidates,
+  keyTerms,
+  onComposedChange,
+}: EnhancementCandidatesProps) {
+  // What the composed result lost, checked again on every change: the composer
+  // normalizes markup, and hand edits or inserted sentences can drop structure
+  const [composedWarnings, setComposedWarnings] = useState<string[]>([]);
+
+  const updateComposed = (html: string) => {
+    setComposedWarnings(checkEnhancedStructure(originalHtml, html, keyTerms));
+    onComposedChange(html);
+  };
+
+  const composer = useEditor({
+    extensions: getTiptapExtensions(),
+    content: candidates[0]?.newHtml ?? '',
+    editorProps: {
+      attributes: {
+        class: 'tiptap-editor-content',
+        style: 'outline: none; min-height: 80px; padding: 0.5rem; font-size: 13px;',
+      },
+    },
+    // The parent starts from the raw first candidate; hand it the normalized result
+    onCreate: ({ editor }) => updateComposed(editor.getHTML()),
+    onUpdate: ({ editor }) => updateComposed(editor.getHTML()),
+  });
+
+  const sentences = useMemo(
+    () => candidates.map((candidate) => splitSentences(candidate.newHtml)),
+    [candidates]
+  );
+
+  const handleUse = (candidate: EnhanceCandidate) => {
+    // setContent doesn't emit an update, so the parent is told directly
+    if (!composer) return;
+    composer.commands.setContent(candidate.newHtml);
+    updateComposed(composer.getHTML());
+  };
+
+  const handleInsert = (sentence: string) => {
+    composer?.chain().focus().insertContent(`${sentence} `).run();
+  };
+
+  return (
+    <Stack gap="sm">
+      <ScrollArea type="auto" offsetScrollbars>
+        <Group gap="sm" wrap="nowrap" align="stretch">
+          {candidates.map((candidate, index) => (
+            <Paper key={candidate.style} p="xs" withBorder w={280} style={{ flexShrink: 0 }}>
+              <Stack gap="xs">
+                <Group justify="space-between">
+                  <Badge size="sm" variant="light">
+                    {CANDIDATE_STYLE_LABELS[candidate.style]}
+                  </Badge>
+                  <Button
+                    size="compact-xs"
+                    variant="light"
+                    leftSection={<IconCheck size={12} />}
+                    onClick={() => handleUse(candidate)}
+                  >
+                    Use This
+                  </Button>
+                </Group>
+
+                {candidate.warnings && <StructureWarningsAlert warnings={candidate.warnings} />}
+
+                <ReactDiffViewer
+                  oldValue={originalHtml}
+                  newValue={candidate.newHtml}
+                  splitView={false}
+                  useDarkTheme={false}
+                  hideLineNumbers
+                  showDiffOnly={false}
+                  styles={{
+                    diffContainer: {
+                      fontSize: '12px',
+                    },
+                  }}
+                />
+
+                <Stack gap={4}>
+                  {sentences[index].map((sentence, sentenceIndex) => (
+                    <Group
+                      key={`${candidate.style}-${sentenceIndex}`}
+                      gap={4}
+                      wrap="nowrap"
+                      align="flex-start"
+                    >
+                      <Tooltip label="Insert at the cursor in the result">
+                        <ActionIcon
+                          size="xs"
+                          variant="subtle"
+                          onClick={() => handleInsert(sentence)}
+                        >
+                          <IconPlus size={12} />
+                        </ActionIcon>
+                      </Tooltip>
+                      <Text size="xs">{sentence}</Text>
+                    </Group>
+                  ))}
+                </Stack>
+              </Stack>
+            </Paper>
+          ))}
+        </Group>
+      </ScrollArea>
+
+      <div>
+        <Text size="xs" c="dimmed" mb={4}>
+          Result (edit it or insert sentences from the candidates above):
+        </Text>
+        {composedWarnings.length > 0 && <StructureWarningsAlert warnings={composedWarnings} />}
+        <Paper withBorder mt={composedWarnings.length > 0 ? 'xs' : 0}>
+          <EditorContent editor={composer} />
+        </Paper>
+      </div>
+    </Stack>
+  );
+}
+
+/**
+ * Plain-text sentences of a candidate, block by block
+ */
+function splitSentences(html: string): string[] {
+  const text =
+    new DOMParser().parseFromString(html.replace(BLOCK_END_PATTERN, '$&\n'), 'text/html').body
+      .textContent ?? '';
+
+  return text
+    .split('\n')
+    .flatMap((line) => line.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
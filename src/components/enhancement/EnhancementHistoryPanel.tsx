@@ -0,0 +1,238 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Center,
+  Divider,
+  Group,
+  Loader,
+  Paper,
+  ScrollArea,
+  Stack,
+  Switch,
+  Text,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconArrowBackUp, IconHistory, IconRepeat, IconX } from '@tabler/icons-react';
+import type { Editor } from '@tiptap/react';
+import { useCallback, useEffect, useState } from 'react';
+import ReactDiffViewer from 'react-diff-viewer-continued';
+import { tiptapJsonToBlockLines } from '@/lib/content-diff';
+import { findBlockRange } from '@/lib/enhancement-history';
+import { getEditorPreferences, saveEditorPreferences } from '@/lib/settings';
+import { type EnhancementRecord, type EnhancementSource, storage } from '@/lib/storage';
+
+interface EnhancementHistoryPanelProps {
+  editor: Editor;
+  documentId: string;
+  revision: number; // Changes whenever a new record is saved, to reload the list
+  onReapply: (instructions: string) => void;
+  onReverted: () => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<EnhancementSource, string> = {
+  auto: 'Auto enhance',
+  custom: 'Custom enhance',
+  batch: 'Whole document',
+};
+
+export function EnhancementHistoryPanel({
+  editor,
+  documentId,
+  revision,
+  onReapply,
+  onReverted,
+  onClose,
+}: EnhancementHistoryPanelProps) {
+  const [records, setRecords] = useState<EnhancementRecord[] | null>(null);
+  const [recordRejected, setRecordRejected] = useState(
+    () => getEditorPreferences().recordRejectedEnhancements
+  );
+  // Re-render on editor changes so selection and revert availability stay current
+  const [, setEditorState] = useState(0);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      // Newest first
+      setRecords((await storage.getHistory(documentId)).reverse());
+    } catch (error) {
+      setRecords([]);
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load enhancement history',
+        color: 'red',
+      });
+    }
+  }, [documentId]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: revision is a reload trigger
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords, revision]);
+
+  useEffect(() => {
+    const handleChange = () => setEditorState((value) => value + 1);
+    editor.on('transaction', handleChange);
+    return () => {
+      editor.off('transaction', handleChange);
+    };
+  }, [editor]);
+
+  const handleRecordRejectedChange = (checked: boolean) => {
+    setRecordRejected(checked);
+    saveEditorPreferences({ ...getEditorPreferences(), recordRejectedEnhancements: checked });
+  };
+
+  /**
+   * Put the original blocks back, if the enhanced blocks are still in the document unchanged
+   */
+  const handleRevert = (record: EnhancementRecord) => {
+    const range = findBlockRange(editor.state.doc, record.enhancedContent?.content ?? []);
+    if (!range) {
+      notifications.show({
+        title: 'Cannot Revert',
+        message: 'The enhanced text has been edited since, so it was left as it is.',
+        color: 'yellow',
+      });
+      return;
+    }
+
+    editor
+      .chain()
+      .focus()
+      .insertContentAt(range, record.originalContent?.content ?? [])
+      .run();
+    onReverted();
+
+    notifications.show({
+      title: 'Enhancement Reverted',
+      message: 'The original text has been restored',
+      color: 'blue',
+    });
+  };
+
+  const hasSelection = !editor.state.selection.empty;
+
+  return (
+    <Stack h="100%" gap="md" p="md" style={{ overflow: 'hidden' }}>
+      {/* Header */}
+      <Group justify="space-between">
+        <Group gap="xs">
+          <IconHistory size={20} />
+          <Text fw={600} size="lg">
+            Enhancement History
+          </Text>
+        </Group>
+        <ActionIcon variant="subtle" onClick={onClose}>
+          <IconX size={18} />
+        </ActionIcon>
+      </Group>
+
+      <Divider />
+
+      <Switch
+        label="Also record rejected suggestions"
+        checked={recordRejected}
+        onChange={(event) => handleRecordRejectedChange(event.currentTarget.checked)}
+      />
+
+      <Text size="xs" c="dimmed">
+        Select text in the document to re-apply a past instruction to it.
+      </Text>
+
+      <ScrollArea style={{ flex: 1 }} type="auto">
+        {records === null ? (
+          <Center py="xl">
+            <Loader size="sm" />
+          </Center>
+        ) : records.length === 0 ? (
+          <Text size="sm" c="dimmed" ta="center" py="xl">
+            No enhancements recorded yet. Accepted suggestions show up here.
+          </Text>
+        ) : (
+          <Stack gap="sm">
+            {records.map((record) => {
+              const canRevert =
+                record.status !== 'rejected' &&
+                findBlockRange(editor.state.doc, record.enhancedContent?.content ?? []) !== null;
+
+              return (
+                <Paper key={record.id} p="sm" withBorder>
+                  <Group justify="space-between" mb="xs" wrap="nowrap">
+                    <Group gap={6}>
+                      <Badge
+                        size="sm"
+                        variant="light"
+                        color={record.status === 'rejected' ? 'orange' : 'green'}
+                      >
+                        {record.status === 'rejected' ? 'Rejected' : 'Accepted'}
+                      </Badge>
+                      {record.source && (
+                        <Badge size="sm" variant="light" color="gray">
+                          {SOURCE_LABELS[record.source]}
+                        </Badge>
+                      )}
+                    </Group>
+                    <Text size="xs" c="dimmed">
+                      {new Date(record.createdAt).toLocaleString('en-US')}
+                    </Text>
+                  </Group>
+
+                  <Text size="sm" mb={4} fs={record.instructions ? undefined : 'italic'}>
+                    {record.instructions || 'General enhancement'}
+                  </Text>
+                  {record.model && (
+                    <Text size="xs" c="dimmed" mb="xs">
+                      Model: {record.model}
+                      {record.metadata && ` · ${record.metadata.documentType} style guide`}
+                    </Text>
+                  )}
+
+                  <ReactDiffViewer
+                    oldValue={tiptapJsonToBlockLines(record.originalContent)}
+                    newValue={tiptapJsonToBlockLines(record.enhancedContent)}
+                    splitView={false}
+                    useDarkTheme={false}
+                    hideLineNumbers
+                    showDiffOnly={false}
+                    styles={{
+                      diffContainer: {
+                        fontSize: '13px',
+                      },
+                    }}
+                  />
+
+                  <Group gap="xs" mt="xs">
+                    <Button
+                      size="xs"
+                      variant="light"
+                      leftSection={<IconRepeat size={14} />}
+                      onClick={() => onReapply(record.instructions)}
+                      disabled={!hasSelection}
+                    >
+                      Apply to Selection
+                    </Button>
+                    {record.status !== 'rejected' && (
+                      <Button
+                        size="xs"
+                        variant="light"
+                        color="orange"
+                        leftSection={<IconArrowBackUp size={14} />}
+                        onClick={() => handleRevert(record)}
+                        disabled={!canRevert}
+                        title={canRevert ? undefined : 'The enhanced text has been edited since'}
+                      >
+                        Revert
+                      </Button>
+                    )}
+                  </Group>
+                </Paper>
+              );
+            })}
+          </Stack>
+        )}
+      </ScrollArea>
+    </Stack>
+  );
+}
@@ -2,6 +2,7 @@ import {
   ActionIcon,
   Badge,
   Button,
+  Chip,
   Divider,
   Group,
   Loader,
@@ -12,17 +13,38 @@ import {
   Textarea,
 } from '@mantine/core';
 import { IconCheck, IconSparkles, IconX } from '@tabler/icons-react';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import ReactDiffViewer from 'react-diff-viewer-continued';
-import { enhanceContent } from '@/lib/api-client';
+import {
+  type CandidateStyle,
+  describeApiError,
+  type EnhanceCandidate,
+  enhanceContent,
+  enhanceContentStream,
+} from '@/lib/api-client';
 import { notifications } from '@mantine/notifications';
 import type { DocumentMetadata } from '@/lib/storage';
+import { sanitizeHtmlForTiptap } from '@/lib/tiptap-config';
+import { CANDIDATE_STYLE_LABELS, EnhancementCandidates } from './EnhancementCandidates';
+import { StructureWarningsAlert } from './StructureWarningsAlert';
 
 interface Enhancement {
   enhancedHtml: string; // Enhanced HTML from API
   prompt?: string;
+  model: string;
+  warnings?: string[]; // Structure the enhanced HTML lost, reported by the server
+  candidates?: EnhanceCandidate[]; // Alternatives to choose from, when requested
+}
+
+interface ConversationMessage {
+  role: 'user' | 'ai';
+  content: string;
+  enhancement?: Enhancement; // The answer of an AI message, kept after a follow-up
 }
 
+// Styles that can be requested next to the standard enhancement
+const ALTERNATIVE_STYLES: CandidateStyle[] = ['concise', 'detailed', 'friendly'];
+
 interface EnhancementSidePanelProps {
   fullDocument: string;
   paragraphWithSelection: string;
@@ -30,7 +52,7 @@ interface EnhancementSidePanelProps {
   documentName?: string;
   documentMetadata?: DocumentMetadata;
   onClose: () => void;
-  onAccept: (originalText: string, enhancedText: string) => void;
+  onAccept: (enhancedText: string, details: { instructions: string; model: string }) => void;
   onReject: () => void;
 }
 
@@ -47,64 +69,125 @@ export function EnhancementSidePanel({
   const [prompt, setPrompt] = useState('');
   const [enhancement, setEnhancement] = useState<Enhancement | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [conversationHistory, setConversationHistory] = useState<
-    Array<{ role: 'user' | 'ai'; content: string }>
-  >([]);
+  const [streamingHtml, setStreamingHtml] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [conversationHistory, setConversationHistory] = useState<ConversationMessage[]>([]);
+  const [alternativeStyles, setAlternativeStyles] = useState<CandidateStyle[]>([]);
+  // The result composed from the candidates, accepted instead of the first candidate
+  const [composedHtml, setComposedHtml] = useState<string | null>(null);
+
+  // Stop any in-flight stream when the panel unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const handleEnhance = async () => {
     if (!prompt.trim()) return;
 
     setIsLoading(true);
+    setStreamingHtml('');
 
     // Add user message to history
     setConversationHistory((prev) => [...prev, { role: 'user', content: prompt }]);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      const result = await enhanceContent({
+      const request = {
         fullDocumentHtml: fullDocument,
         targetBlockHtml: paragraphWithSelection,
         instructions: prompt,
         documentName,
         metadata: documentMetadata,
-      });
+      };
+
+      // Alternatives come back together, so only a single enhancement is streamed
+      const result =
+        alternativeStyles.length > 0
+          ? await enhanceContent(
+              { ...request, candidateStyles: ['standard', ...alternativeStyles] },
+              abortController.signal
+            )
+          : // Stream the enhanced HTML so the preview renders token-by-token
+            await enhanceContentStream(request, {
+              signal: abortController.signal,
+              onDelta: (_delta, accumulated) => setStreamingHtml(accumulated),
+            });
+
+      const newEnhancement: Enhancement = {
+        enhancedHtml: result.newHtml,
+        prompt,
+        model: result.model,
+        // With candidates, each one shows its own warnings
+        warnings: result.candidates ? undefined : result.warnings,
+        candidates: result.candidates,
+      };
 
       // Add AI response to history
       setConversationHistory((prev) => [
         ...prev,
-        { role: 'ai', content: "Here's the enhanced version:" },
+        {
+          role: 'ai',
+          content: result.candidates
+            ? `Here are ${result.candidates.length} versions to choose from:`
+            : "Here's the enhanced version:",
+          enhancement: newEnhancement,
+        },
       ]);
 
-      setEnhancement({
-        enhancedHtml: result.newHtml,
-        prompt,
-      });
+      setEnhancement(newEnhancement);
+      setComposedHtml(result.candidates ? result.newHtml : null);
 
       setPrompt('');
     } catch (error) {
+      if (abortController.signal.aborted) return;
+
       console.error('Enhancement failed:', error);
-      notifications.show({
+      const { title, message } = describeApiError(error, {
         title: 'Enhancement Failed',
-        message: error instanceof Error ? error.message : 'Failed to enhance content',
+        message: 'Failed to enhance content',
+      });
+      notifications.show({
+        title,
+        message,
         color: 'red',
       });
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
+      setStreamingHtml('');
     }
   };
 
   const handleAccept = () => {
     if (enhancement) {
-      onAccept(selectedText, enhancement.enhancedHtml);
-      onClose();
+      onAccept(composedHtml ?? enhancement.enhancedHtml, {
+        instructions: enhancement.prompt ?? '',
+        model: enhancement.model,
+      });
     }
   };
 
   const handleFollowUp = () => {
     if (!enhancement) return;
-    // Reset enhancement to allow follow-up with new prompt
+    // Reset enhancement to allow follow-up with new prompt (earlier answers stay in the conversation)
     setEnhancement(null);
+    setComposedHtml(null);
   };
 
+  /**
+   * Make an earlier answer the one to accept again
+   */
+  const handleUseEarlier = (earlier: Enhancement) => {
+    setEnhancement(earlier);
+    setComposedHtml(earlier.candidates ? earlier.enhancedHtml : null);
+  };
+
+  const originalHtml = paragraphWithSelection.replace(/<target>|<\/target>/g, '');
+
   return (
     <Stack h="100%" gap="md" p="md" style={{ overflow: 'hidden' }}>
       {/* Header */}
@@ -137,8 +220,7 @@ export function EnhancementSidePanel({
         <ScrollArea style={{ flex: 1 }} type="auto">
           <Stack gap="sm">
             {conversationHistory.map((message, index) => {
-              const isLastAIMessage =
-                message.role === 'ai' && index === conversationHistory.length - 1 && enhancement;
+              const isActive = !!message.enhancement && message.enhancement === enhancement;
 
               return (
                 <Paper
@@ -147,7 +229,7 @@ export function EnhancementSidePanel({
                   withBorder
                   bg={message.role === 'user' ? 'blue.0' : 'gray.0'}
                 >
-                  <Group gap="xs" mb="xs">
+                  <Group gap="xs" mb="xs" justify="space-between">
                     <Badge
                       size="sm"
                       color={message.role === 'user' ? 'blue' : 'gray'}
@@ -155,17 +237,36 @@ export function EnhancementSidePanel({
                     >
                       {message.role === 'user' ? 'You' : 'AI'}
                     </Badge>
+                    {message.enhancement && !isActive && !isLoading && (
+                      <Button
+                        size="compact-xs"
+                        variant="subtle"
+                        onClick={() => message.enhancement && handleUseEarlier(message.enhancement)}
+                      >
+                        Use This Answer
+                      </Button>
+                    )}
                   </Group>
-                  <Text size="sm" mb={isLastAIMessage ? 'sm' : 0}>
+                  <Text size="sm" mb={message.enhancement ? 'sm' : 0}>
                     {message.content}
                   </Text>
 
+                  {/* Candidates to choose from, for the answer under review */}
+                  {isActive && message.enhancement?.candidates && (
+                    <EnhancementCandidates
+                      originalHtml={originalHtml}
+                      candidates={message.enhancement.candidates}
+                      keyTerms={documentMetadata?.keyTerms}
+                      onComposedChange={setComposedHtml}
+                    />
+                  )}
+
                   {/* Diff Viewer inside AI message */}
-                  {isLastAIMessage && (
+                  {message.enhancement && !(isActive && message.enhancement.candidates) && (
                     <div style={{ marginTop: '0.5rem' }}>
                       <ReactDiffViewer
-                        oldValue={paragraphWithSelection.replace(/<target>|<\/target>/g, '')}
-                        newValue={enhancement.enhancedHtml}
+                        oldValue={originalHtml}
+                        newValue={message.enhancement.enhancedHtml}
                         splitView={false}
                         useDarkTheme={false}
                         hideLineNumbers
@@ -185,15 +286,31 @@ export function EnhancementSidePanel({
         </ScrollArea>
       )}
 
-      {/* Loading State */}
+      {/* Loading State (with streaming preview once tokens arrive) */}
       {isLoading && (
         <Paper p="md" withBorder>
-          <Stack align="center" gap="md">
-            <Loader size="md" />
-            <Text size="sm" c="dimmed">
-              Processing your request...
-            </Text>
-          </Stack>
+          {streamingHtml ? (
+            <Stack gap="xs">
+              <Group gap="xs">
+                <Loader size="xs" />
+                <Text size="xs" c="dimmed">
+                  Generating...
+                </Text>
+              </Group>
+              <div
+                style={{ fontSize: '13px' }}
+                // biome-ignore lint/security/noDangerouslySetInnerHtml: preview of sanitized AI output
+                dangerouslySetInnerHTML={{ __html: sanitizeHtmlForTiptap(streamingHtml) }}
+              />
+            </Stack>
+          ) : (
+            <Stack align="center" gap="md">
+              <Loader size="md" />
+              <Text size="sm" c="dimmed">
+                Processing your request...
+              </Text>
+            </Stack>
+          )}
         </Paper>
       )}
 
@@ -212,6 +329,24 @@ export function EnhancementSidePanel({
               }
             }}
           />
+          <div>
+            <Text size="xs" c="dimmed" mb={4}>
+              Also suggest alternatives:
+            </Text>
+            <Chip.Group
+              multiple
+              value={alternativeStyles}
+              onChange={(value) => setAlternativeStyles(value as CandidateStyle[])}
+            >
+              <Group gap="xs">
+                {ALTERNATIVE_STYLES.map((style) => (
+                  <Chip key={style} value={style} size="xs">
+                    {CANDIDATE_STYLE_LABELS[style]}
+                  </Chip>
+                ))}
+              </Group>
+            </Chip.Group>
+          </div>
           <Button
             leftSection={<IconSparkles size={16} />}
             onClick={handleEnhance}
@@ -223,6 +358,10 @@ export function EnhancementSidePanel({
         </>
       )}
 
+      {enhancement?.warnings && !isLoading && (
+        <StructureWarningsAlert warnings={enhancement.warnings} />
+      )}
+
       {/* Action Buttons (when enhancement is ready) */}
       {enhancement && !isLoading && (
         <Group gap="sm">
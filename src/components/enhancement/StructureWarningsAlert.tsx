@@ -0,0 +1,29 @@
+import { Alert, List, Text } from '@mantine/core';
+import { IconAlertTriangle } from '@tabler/icons-react';
+
+interface StructureWarningsAlertProps {
+  warnings: string[];
+}
+
+/**
+ * What an AI answer dropped from the original HTML, shown before it can be accepted
+ */
+export function StructureWarningsAlert({ warnings }: StructureWarningsAlertProps) {
+  return (
+    <Alert
+      icon={<IconAlertTriangle size={16} />}
+      color="orange"
+      variant="light"
+      title="Check before accepting"
+    >
+      <Text size="xs" mb={4}>
+        The suggestion doesn't keep everything from the original:
+      </Text>
+      <List size="xs" spacing={2}>
+        {warnings.map((warning) => (
+          <List.Item key={warning}>{warning}</List.Item>
+        ))}
+      </List>
+    </Alert>
+  );
+}
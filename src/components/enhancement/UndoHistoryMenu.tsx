@@ -0,0 +1,131 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Group,
+  Popover,
+  ScrollArea,
+  Stack,
+  Text,
+  Tooltip,
+} from '@mantine/core';
+import { IconArrowBackUp, IconArrowForwardUp, IconSparkles } from '@tabler/icons-react';
+import type { Editor } from '@tiptap/react';
+import { useEffect, useState } from 'react';
+import { type AiStepStatus, getAiSteps } from '@/lib/ai-history';
+
+interface UndoHistoryMenuProps {
+  editor: Editor;
+}
+
+const STATUS_BADGES: Record<AiStepStatus, { label: string; color: string }> = {
+  applied: { label: 'Applied', color: 'green' },
+  undone: { label: 'Undone', color: 'gray' },
+  edited: { label: 'Edited since', color: 'orange' },
+};
+
+/**
+ * Undo/redo buttons plus the list of AI steps, each of which can be undone on its own
+ */
+export function UndoHistoryMenu({ editor }: UndoHistoryMenuProps) {
+  // Re-render on editor changes so the buttons and step statuses stay current
+  const [, setEditorState] = useState(0);
+
+  useEffect(() => {
+    const handleChange = () => setEditorState((value) => value + 1);
+    editor.on('transaction', handleChange);
+    return () => {
+      editor.off('transaction', handleChange);
+    };
+  }, [editor]);
+
+  // Newest first
+  const steps = [...getAiSteps(editor.state)].reverse();
+
+  return (
+    <Group gap={4}>
+      <Tooltip label="Undo">
+        <ActionIcon
+          variant="subtle"
+          onClick={() => editor.chain().focus().undo().run()}
+          disabled={!editor.can().undo()}
+        >
+          <IconArrowBackUp size={18} />
+        </ActionIcon>
+      </Tooltip>
+      <Tooltip label="Redo">
+        <ActionIcon
+          variant="subtle"
+          onClick={() => editor.chain().focus().redo().run()}
+          disabled={!editor.can().redo()}
+        >
+          <IconArrowForwardUp size={18} />
+        </ActionIcon>
+      </Tooltip>
+
+      <Popover width={400} position="bottom-end" shadow="md">
+        <Popover.Target>
+          <Button size="xs" variant="light" color="gray" leftSection={<IconSparkles size={14} />}>
+            AI Steps{steps.length > 0 ? ` (${steps.length})` : ''}
+          </Button>
+        </Popover.Target>
+        <Popover.Dropdown>
+          {steps.length === 0 ? (
+            <Text size="sm" c="dimmed">
+              AI edits made in this session show up here.
+            </Text>
+          ) : (
+            <ScrollArea.Autosize mah={360} type="auto">
+              <Stack gap="xs">
+                {steps.map((step) => (
+                  <Group key={step.id} justify="space-between" wrap="nowrap">
+                    <div style={{ minWidth: 0 }}>
+                      <Text size="sm" fw={500} truncate>
+                        {step.label}
+                      </Text>
+                      <Group gap={6}>
+                        <Text size="xs" c="dimmed">
+                          {new Date(step.createdAt).toLocaleTimeString('en-US')}
+                        </Text>
+                        <Badge size="xs" variant="light" color={STATUS_BADGES[step.status].color}>
+                          {STATUS_BADGES[step.status].label}
+                        </Badge>
+                      </Group>
+                    </div>
+                    {step.status === 'undone' ? (
+                      <Button
+                        size="xs"
+                        variant="subtle"
+                        leftSection={<IconArrowForwardUp size={14} />}
+                        onClick={() => editor.chain().focus().redoAiStep(step.id).run()}
+                      >
+                        Redo
+                      </Button>
+                    ) : (
+                      <Tooltip
+                        label="The text was edited after this step, so it can't be undone on its own"
+                        disabled={step.status === 'applied'}
+                        multiline
+                        w={220}
+                      >
+                        <Button
+                          size="xs"
+                          variant="subtle"
+                          leftSection={<IconArrowBackUp size={14} />}
+                          onClick={() => editor.chain().focus().undoAiStep(step.id).run()}
+                          disabled={step.status !== 'applied'}
+                        >
+                          Undo
+                        </Button>
+                      </Tooltip>
+                    )}
+                  </Group>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+          )}
+        </Popover.Dropdown>
+      </Popover>
+    </Group>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Labelled AI steps in the editor history
+ * Every AI edit is applied as one transaction tagged with a label such as
+ * "Auto Enhance in 'Rate Limiting'". The transaction is kept as a separate
+ * undo event, so a single undo reverts the whole AI edit and typing right
+ * before or after it is never merged into it.
+ *
+ * The ranges each step changed are tracked through later edits, so an older
+ * step can be undone (and redone) on its own as long as nothing has been
+ * edited inside those ranges since.
+ *
+ * Accepting a step's suggestions is folded into the step: it joins the step's
+ * undo event and becomes the step's applied content, so the step stays
+ * applied and one undo still reverts the whole enhancement. Suggestions
+ * without a step in this session (e.g. saved with the document) are accepted
+ * as a regular edit. Rejecting them
+ * stays an edit of its own: it puts the original content back, so the step
+ * reads as undone, and undoing the rejection brings the suggestion back.
+ */
+
+import { closeHistory } from '@tiptap/pm/history';
+import type { Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { type EditorState, Plugin, PluginKey, type Transaction } from '@tiptap/pm/state';
+import { Extension } from '@tiptap/react';
+
+/** Older steps are dropped from the list beyond this */
+const MAX_AI_STEPS = 50;
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    aiHistory: {
+      /**
+       * Mark the changes made by the rest of the chain as one AI step
+       */
+      labelAiStep: (label: string) => ReturnType;
+      /**
+       * Fold the changes made by the rest of the chain (accepting suggestions)
+       * into the AI steps they touch instead of recording a separate undo event
+       * Only for changes inside applied steps (see isCoveredByAiStep); anything
+       * else would be left out of the undo history.
+       */
+      foldIntoAiSteps: () => ReturnType;
+      /**
+       * Put back the content an AI step replaced, if it hasn't been edited since
+       */
+      undoAiStep: (stepId: string) => ReturnType;
+      /**
+       * Re-apply an AI step undone with undoAiStep or the regular undo
+       */
+      redoAiStep: (stepId: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * - applied: the step's changes are in the document
+ * - undone: the content from before the step is back
+ * - edited: the changed ranges were edited since, so the step can't be undone on its own
+ */
+export type AiStepStatus = 'applied' | 'undone' | 'edited';
+
+interface AiStepChange {
+  from: number; // Range in the current document
+  to: number;
+  original: Slice; // Content before the step
+  applied: Slice; // Content the step put in
+}
+
+export interface AiStep {
+  id: string;
+  label: string;
+  createdAt: string;
+  status: AiStepStatus;
+  changes: AiStepChange[];
+}
+
+type AiHistoryMeta =
+  | { type: 'record'; id: string; label: string }
+  | { type: 'fold' }
+  | { type: 'undo' | 'redo'; id: string };
+
+export const aiHistoryKey = new PluginKey<AiStep[]>('aiHistory');
+
+/**
+ * Editor extension tracking AI steps; requires the undo/redo history from StarterKit
+ */
+export const AiHistory = Extension.create({
+  name: 'aiHistory',
+
+  addCommands() {
+    return {
+      labelAiStep:
+        (label) =>
+        ({ tr }) => {
+          tr.setMeta(aiHistoryKey, { type: 'record', id: crypto.randomUUID(), label });
+          closeHistory(tr);
+          return true;
+        },
+
+      foldIntoAiSteps:
+        () =>
+        ({ tr }) => {
+          tr.setMeta(aiHistoryKey, { type: 'fold' });
+          // Left out of the undo history, so undoing the step's event also reverts these changes
+          tr.setMeta('addToHistory', false);
+          return true;
+        },
+
+      undoAiStep:
+        (stepId) =>
+        ({ state, tr, dispatch }) =>
+          revertAiStep(state, tr, stepId, 'undo', !!dispatch),
+
+      redoAiStep:
+        (stepId) =>
+        ({ state, tr, dispatch }) =>
+          revertAiStep(state, tr, stepId, 'redo', !!dispatch),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<AiStep[]>({
+        key: aiHistoryKey,
+
+        state: {
+          init: () => [],
+          apply: (tr, steps, _oldState, newState) => {
+            const meta: AiHistoryMeta | undefined = tr.getMeta(aiHistoryKey);
+            if (!tr.docChanged) return steps;
+
+            const mapped = steps.map((step) =>
+              mapAiStep(step, tr, newState.doc, meta?.type === 'fold')
+            );
+            if (meta?.type !== 'record') return mapped;
+
+            const recorded: AiStep = {
+              id: meta.id,
+              label: meta.label,
+              createdAt: new Date().toISOString(),
+              status: 'applied',
+              changes: getChanges(tr),
+            };
+            return [...mapped, recorded].slice(-MAX_AI_STEPS);
+          },
+        },
+
+        // Close the undo event after an AI step, so the next edit starts a new one
+        appendTransaction: (transactions, _oldState, newState) =>
+          transactions.some((tr) => {
+            const meta: AiHistoryMeta | undefined = tr.getMeta(aiHistoryKey);
+            return tr.docChanged && meta && meta.type !== 'fold';
+          })
+            ? closeHistory(newState.tr)
+            : null,
+      }),
+    ];
+  },
+});
+
+/**
+ * AI steps of the editor, oldest first
+ */
+export function getAiSteps(state: EditorState): AiStep[] {
+  return aiHistoryKey.getState(state) ?? [];
+}
+
+/**
+ * Whether an applied AI step of this session changed the whole range, e.g. to
+ * tell suggestions it made from ones loaded with the document
+ */
+export function isCoveredByAiStep(
+  state: EditorState,
+  range: { from: number; to: number }
+): boolean {
+  return getAiSteps(state).some(
+    (step) =>
+      step.status === 'applied' &&
+      step.changes.some((change) => change.from <= range.from && range.to <= change.to)
+  );
+}
+
+/**
+ * Label for an AI step, naming the section (nearest heading before pos) it changed
+ */
+export function describeAiStep(action: string, doc: ProseMirrorNode, pos: number): string {
+  let section: string | null = null;
+  doc.forEach((node, offset) => {
+    if (offset <= pos && node.type.name === 'heading' && node.textContent.trim()) {
+      section = node.textContent.trim();
+    }
+  });
+  return section ? `${action} in '${section}'` : action;
+}
+
+/**
+ * The ranges changed by each step of a transaction, in the transaction's resulting document
+ */
+function getChanges(tr: Transaction): AiStepChange[] {
+  const changes: AiStepChange[] = [];
+
+  tr.steps.forEach((_step, index) => {
+    const rest = tr.mapping.slice(index + 1);
+    tr.mapping.maps[index].forEach((oldStart, oldEnd, newStart, newEnd) => {
+      const from = rest.map(newStart, 1);
+      const to = Math.max(from, rest.map(newEnd, -1));
+      changes.push({
+        from,
+        to,
+        original: tr.docs[index].slice(oldStart, oldEnd),
+        applied: tr.doc.slice(from, to),
+      });
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Follow a step's ranges through a transaction and check whether its content is still intact
+ * When the transaction is folded into applied steps, their ranges' new content becomes
+ * the applied content.
+ */
+function mapAiStep(step: AiStep, tr: Transaction, doc: ProseMirrorNode, fold: boolean): AiStep {
+  const changes = step.changes.map((change) => {
+    const from = tr.mapping.map(change.from, 1);
+    return { ...change, from, to: Math.max(from, tr.mapping.map(change.to, -1)) };
+  });
+
+  if (fold && step.status === 'applied') {
+    return {
+      ...step,
+      changes: changes.map((change) => ({ ...change, applied: doc.slice(change.from, change.to) })),
+    };
+  }
+
+  const matches = (key: 'original' | 'applied') =>
+    changes.every((change) => doc.slice(change.from, change.to).eq(change[key]));
+  const status: AiStepStatus = matches('applied')
+    ? 'applied'
+    : matches('original')
+      ? 'undone'
+      : 'edited';
+
+  return { ...step, changes, status };
+}
+
+/**
+ * Swap a step's ranges back to their original content (undo) or to the AI content (redo)
+ */
+function revertAiStep(
+  state: EditorState,
+  tr: Transaction,
+  stepId: string,
+  mode: 'undo' | 'redo',
+  apply: boolean
+): boolean {
+  const step = getAiSteps(state).find((item) => item.id === stepId);
+  if (!step || step.status !== (mode === 'undo' ? 'applied' : 'undone')) {
+    return false;
+  }
+
+  if (apply) {
+    // Bottom-up keeps the earlier ranges valid
+    const changes = [...step.changes].sort((a, b) => b.from - a.from);
+    for (const change of changes) {
+      tr.replace(change.from, change.to, mode === 'undo' ? change.original : change.applied);
+    }
+    tr.setMeta(aiHistoryKey, { type: mode, id: stepId });
+    closeHistory(tr);
+  }
+
+  return true;
+}
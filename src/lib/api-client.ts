@@ -2,13 +2,16 @@
  * API client for calling backend Vercel functions
  */
 
-import type { DocumentMetadata } from './storage';
+import type { ConfluenceCredentials } from './settings';
+import type { Document, DocumentMetadata } from './storage';
 
 export interface ConfluenceResponse {
   content: string; // HTML content
   title: string;
   version: number;
   lastModified: string;
+  embeddedImages: number; // Attachment images embedded as data URIs
+  failedImages: number; // Attachment images that could not be downloaded (shown as links)
 }
 
 export interface EnhanceRequest {
@@ -17,19 +20,177 @@ export interface EnhanceRequest {
   instructions?: string;
   documentName?: string;
   metadata?: DocumentMetadata;
+  bypassCache?: boolean; // Skip the server's response cache, e.g. when the user asks to try again
+  candidateStyles?: CandidateStyle[]; // Generate one alternative per style (JSON endpoint only)
+}
+
+/**
+ * Styles of alternative enhancement candidates
+ * - standard: the plain enhancement
+ * - concise / detailed / friendly: the enhancement shortened, expanded or in a friendlier tone
+ */
+export type CandidateStyle = 'standard' | 'concise' | 'detailed' | 'friendly';
+
+export interface EnhanceCandidate {
+  style: CandidateStyle;
+  newHtml: string;
+  warnings?: string[];
 }
 
 export interface EnhanceResponse {
   action: 'replace';
   newHtml: string;
   model: string;
+  warnings?: string[]; // Structure the answer lost compared to the target (images, table rows, ...)
+  context: EnhanceContextReport;
+  cached?: boolean; // Served from the server's response cache (not set by the streaming endpoint)
+  candidates?: EnhanceCandidate[]; // One per requested candidate style, in request order
 }
 
+/**
+ * Document context an enhancement was made with, for debugging
+ * - full: the whole document was sent
+ * - excerpt: it was over the token budget, so only the outline and the sections around the target were
+ */
+export interface EnhanceContextReport {
+  strategy: 'full' | 'excerpt';
+  estimatedTokens: number;
+  documentTokens: number;
+  budgetTokens: number;
+  sections?: { included: number; total: number };
+}
+
+/**
+ * Error codes returned by the API (see api/utils/structured-output.ts, api/utils/confluence.ts
+ * and api/utils/document-store.ts), plus NETWORK_ERROR when the request never reached the server
+ */
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_MODEL_OUTPUT'
+  | 'MODEL_REQUEST_FAILED'
+  | 'VERSION_CONFLICT'
+  | 'DOCUMENT_CONFLICT'
+  | 'NETWORK_ERROR';
+
 export interface ApiError {
   error: string;
+  code?: ApiErrorCode;
   details?: string;
 }
 
+/**
+ * Error thrown by API calls, carrying the server's error code when available
+ */
+export class ApiRequestError extends Error {
+  readonly code?: ApiErrorCode;
+  readonly status?: number;
+  readonly details?: string;
+
+  constructor(
+    message: string,
+    options: { code?: ApiErrorCode; status?: number; details?: string }
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = options.code;
+    this.status = options.status;
+    this.details = options.details;
+  }
+}
+
+/**
+ * fetch wrapper that throws ApiRequestError for network failures and non-2xx responses
+ */
+export async function apiFetch(
+  url: string,
+  init: RequestInit,
+  fallbackMessage: string
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ApiRequestError('Network error: could not reach the server', {
+      code: 'NETWORK_ERROR',
+    });
+  }
+
+  if (!response.ok) {
+    const error: ApiError = await response.json().catch(() => ({ error: fallbackMessage }));
+    throw new ApiRequestError(error.error || fallbackMessage, {
+      code: error.code,
+      status: response.status,
+      details: error.details,
+    });
+  }
+
+  return response;
+}
+
+/**
+ * User-facing title and message for a failed API call
+ * Distinguishes unusable model output from network and provider failures
+ */
+export function describeApiError(
+  error: unknown,
+  fallback: { title: string; message: string }
+): { title: string; message: string } {
+  if (error instanceof ApiRequestError) {
+    if (error.code === 'INVALID_MODEL_OUTPUT') {
+      return {
+        title: 'AI Returned Unusable Output',
+        message: 'The model responded, but not in the expected format. Please try again.',
+      };
+    }
+    if (error.code === 'VERSION_CONFLICT') {
+      return {
+        title: 'Page Changed in Confluence',
+        message:
+          'Someone edited this page in Confluence after it was imported. Your changes were not published.',
+      };
+    }
+    if (error.code === 'NETWORK_ERROR') {
+      return {
+        title: 'Network Error',
+        message: 'Could not reach the server. Check your connection and try again.',
+      };
+    }
+  }
+
+  return {
+    title: fallback.title,
+    message: error instanceof Error ? error.message : fallback.message,
+  };
+}
+
+export interface PublishRequest {
+  confluenceUrl: string;
+  content: Document['content']; // Tiptap JSON
+  version: number; // Page version the content is based on
+}
+
+export interface PublishResponse {
+  version: number; // New page version
+  lastModified: string;
+  skippedImages: number; // Embedded images that could not be published
+}
+
+export interface ConfluencePageSummary {
+  id: string;
+  title: string;
+  url: string; // Page URL, usable with fetchFromConfluence
+  parentId: string | null;
+  depth: number; // 0 for top-level pages of the listing
+}
+
+export interface ConfluencePageListResponse {
+  scope: 'space' | 'page';
+  title: string; // Space key or root page title
+  pages: ConfluencePageSummary[]; // In tree order
+  truncated: boolean; // The space or tree has more pages than the API lists
+}
+
 export interface PdfToHtmlResponse {
   html: string;
   imageCount: number;
@@ -39,10 +200,12 @@ export interface PdfToHtmlResponse {
 export interface AnalyzeDocumentRequest {
   fullDocumentHtml: string;
   documentName?: string;
+  bypassCache?: boolean; // Skip the server's response cache
 }
 
 export interface AnalyzeDocumentResponse extends DocumentMetadata {
   model: string;
+  cached?: boolean; // Served from the server's response cache
 }
 
 /**
@@ -50,27 +213,73 @@ export interface AnalyzeDocumentResponse extends DocumentMetadata {
  */
 export async function fetchFromConfluence(
   confluenceUrl: string,
-  credentials: {
-    confluenceToken: string;
-    confluenceEmail: string;
-  }
+  credentials: ConfluenceCredentials
 ): Promise<ConfluenceResponse> {
-  const response = await fetch('/api/confluence-fetch', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+  const response = await apiFetch(
+    '/api/confluence-fetch',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        confluenceUrl,
+        ...credentials,
+      }),
     },
-    body: JSON.stringify({
-      confluenceUrl,
-      confluenceToken: credentials.confluenceToken,
-      confluenceEmail: credentials.confluenceEmail,
-    }),
-  });
+    'Failed to fetch from Confluence'
+  );
 
-  if (!response.ok) {
-    const error: ApiError = await response.json();
-    throw new Error(error.error || 'Failed to fetch from Confluence');
-  }
+  return response.json();
+}
+
+/**
+ * List the pages of a Confluence space (space URL) or page tree (page URL)
+ */
+export async function listConfluencePages(
+  confluenceUrl: string,
+  credentials: ConfluenceCredentials
+): Promise<ConfluencePageListResponse> {
+  const response = await apiFetch(
+    '/api/confluence-pages',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        confluenceUrl,
+        ...credentials,
+      }),
+    },
+    'Failed to list Confluence pages'
+  );
+
+  return response.json();
+}
+
+/**
+ * Publish Tiptap JSON content back to Confluence via our API
+ * Fails with a VERSION_CONFLICT error if the page changed since `version`
+ */
+export async function publishToConfluence(
+  request: PublishRequest,
+  credentials: ConfluenceCredentials
+): Promise<PublishResponse> {
+  const response = await apiFetch(
+    '/api/confluence-publish',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...request,
+        ...credentials,
+      }),
+    },
+    'Failed to publish to Confluence'
+  );
 
   return response.json();
 }
@@ -80,21 +289,97 @@ export async function fetchFromConfluence(
  * Sends full document HTML + parent node HTML with <target> tags
  * Preserves HTML structure (tables, lists, formatting)
  */
-export async function enhanceContent(request: EnhanceRequest): Promise<EnhanceResponse> {
-  const response = await fetch('/api/enhance-content', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+export async function enhanceContent(
+  request: EnhanceRequest,
+  signal?: AbortSignal
+): Promise<EnhanceResponse> {
+  const response = await apiFetch(
+    '/api/enhance-content',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
     },
-    body: JSON.stringify(request),
-  });
+    'Failed to enhance content'
+  );
 
-  if (!response.ok) {
-    const error: ApiError = await response.json();
-    throw new Error(error.error || 'Failed to enhance content');
+  return response.json();
+}
+
+export interface EnhanceStreamOptions {
+  onDelta?: (delta: string, accumulated: string) => void;
+  signal?: AbortSignal;
+}
+
+type EnhanceStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: EnhanceResponse }
+  | ({ type: 'error' } & ApiError);
+
+/**
+ * Streaming variant of enhanceContent
+ * Calls onDelta for every chunk of HTML the model produces and resolves with
+ * the final validated response once the server sends its "done" event
+ */
+export async function enhanceContentStream(
+  request: EnhanceRequest,
+  options: EnhanceStreamOptions = {}
+): Promise<EnhanceResponse> {
+  const response = await apiFetch(
+    '/api/enhance-content-stream',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal: options.signal,
+    },
+    'Failed to enhance content'
+  );
+
+  if (!response.body) {
+    throw new ApiRequestError('Streaming is not supported by this browser', {});
   }
 
-  return response.json();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let accumulated = '';
+
+  // Events are newline-delimited JSON; a chunk may end mid-line
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: EnhanceStreamEvent = JSON.parse(line);
+
+      if (event.type === 'delta') {
+        accumulated += event.text;
+        options.onDelta?.(event.text, accumulated);
+      } else if (event.type === 'done') {
+        return event.result;
+      } else {
+        throw new ApiRequestError(event.error || 'Failed to enhance content', {
+          code: event.code,
+          details: event.details,
+        });
+      }
+    }
+  }
+
+  throw new ApiRequestError('Enhancement stream ended unexpectedly', {
+    code: 'NETWORK_ERROR',
+  });
 }
 
 /**
@@ -121,21 +406,20 @@ export async function convertPdfToHtml(file: File): Promise<{ html: string; imag
   // Convert file to base64
   const fileData = await fileToBase64(file);
 
-  const response = await fetch('/api/pdf-to-html', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+  const response = await apiFetch(
+    '/api/pdf-to-html',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        fileData,
+        fileName: file.name,
+      }),
     },
-    body: JSON.stringify({
-      fileData,
-      fileName: file.name,
-    }),
-  });
-
-  if (!response.ok) {
-    const error: ApiError = await response.json();
-    throw new Error(error.error || 'Failed to convert PDF to HTML');
-  }
+    'Failed to convert PDF to HTML'
+  );
 
   const data: PdfToHtmlResponse = await response.json();
   return {
@@ -208,21 +492,18 @@ export function extractParagraphWithSelection(
  * Analyze document and extract metadata using Gemini AI
  * Returns summary, style guide, key terms, and document type
  */
-export async function analyzeDocument(
-  request: AnalyzeDocumentRequest
-): Promise<DocumentMetadata> {
-  const response = await fetch('/api/analyze-document', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+export async function analyzeDocument(request: AnalyzeDocumentRequest): Promise<DocumentMetadata> {
+  const response = await apiFetch(
+    '/api/analyze-document',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
     },
-    body: JSON.stringify(request),
-  });
-
-  if (!response.ok) {
-    const error: ApiError = await response.json();
-    throw new Error(error.error || 'Failed to analyze document');
-  }
+    'Failed to analyze document'
+  );
 
   const data: AnalyzeDocumentResponse = await response.json();
 
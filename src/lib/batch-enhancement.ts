@@ -0,0 +1,223 @@
+/**
+ * Whole-document batch enhancement
+ * Walks the Tiptap document block by block, sends each block through the
+ * enhancement pipeline and collects per-block proposals for review
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { Mapping } from '@tiptap/pm/transform';
+import type { Editor } from '@tiptap/react';
+import { enhanceContent } from './api-client';
+import { runWithConcurrency } from './concurrency';
+import type { DocumentMetadata } from './storage';
+import { parseReplacement } from './suggestions';
+import { nodeToHtml } from './tiptap-helpers';
+
+/** Maximum number of blocks enhanced in parallel */
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchProposalStatus =
+  | 'queued'
+  | 'running'
+  | 'ready' // Proposal available for review
+  | 'unchanged' // Model returned the block as-is
+  | 'failed'
+  | 'accepted'
+  | 'rejected'
+  | 'stale'; // Block was edited after the proposal was requested
+
+export interface BatchProposal {
+  id: string;
+  from: number; // Block node position, mapped through later editor transactions
+  to: number;
+  originalText: string;
+  originalNode: ProseMirrorNode; // Block as collected, to detect any edit to it (text, marks, attrs)
+  originalHtml: string;
+  targetBlockHtml: string; // Block HTML with its whole content wrapped in <target>
+  proposedHtml?: string;
+  model?: string;
+  warnings?: string[]; // Structure the proposed HTML lost, reported by the server
+  error?: string;
+  status: BatchProposalStatus;
+}
+
+/**
+ * Collect every non-empty text block (paragraphs, headings, list item and
+ * table cell paragraphs) in document order. Code blocks are skipped.
+ */
+export function collectBatchProposals(editor: Editor): BatchProposal[] {
+  const proposals: BatchProposal[] = [];
+
+  editor.state.doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    if (node.type.name !== 'codeBlock' && node.textContent.trim().length > 0) {
+      const originalHtml = nodeToHtml(node);
+      proposals.push({
+        id: crypto.randomUUID(),
+        from: pos,
+        to: pos + node.nodeSize,
+        originalText: node.textContent,
+        originalNode: node,
+        originalHtml,
+        targetBlockHtml: wrapBlockContentInTarget(originalHtml),
+        status: 'queued',
+      });
+    }
+
+    // Text blocks have no nested blocks to visit
+    return false;
+  });
+
+  return proposals;
+}
+
+/**
+ * Wrap the inner content of a single-element block in <target> tags
+ * Example: <p>Some <strong>text</strong></p> → <p><target>Some <strong>text</strong></target></p>
+ */
+function wrapBlockContentInTarget(blockHtml: string): string {
+  const match = blockHtml.match(/^(<[^>]+>)([\s\S]*)(<\/[^>]+>)$/);
+  return match
+    ? `${match[1]}<target>${match[2]}</target>${match[3]}`
+    : `<target>${blockHtml}</target>`;
+}
+
+/**
+ * Map proposal positions through an editor transaction so they keep pointing
+ * at the same blocks while the user keeps editing
+ */
+export function mapBatchProposals(proposals: BatchProposal[], mapping: Mapping): BatchProposal[] {
+  return proposals.map((proposal) => {
+    if (proposal.status === 'accepted' || proposal.status === 'rejected') {
+      return proposal;
+    }
+
+    const from = mapping.mapResult(proposal.from, 1);
+    const to = mapping.mapResult(proposal.to, -1);
+    return { ...proposal, from: from.pos, to: to.pos };
+  });
+}
+
+/**
+ * Check that the block a proposal targets is still unchanged in the editor
+ * The whole node is compared, so formatting, link and image edits count too.
+ */
+export function isProposalCurrent(editor: Editor, proposal: BatchProposal): boolean {
+  const node = editor.state.doc.nodeAt(proposal.from);
+  return (
+    !!node &&
+    node.isTextblock &&
+    proposal.from + node.nodeSize === proposal.to &&
+    node.eq(proposal.originalNode)
+  );
+}
+
+interface RunBatchOptions {
+  proposals: BatchProposal[];
+  instructions?: string;
+  fullDocumentHtml: string;
+  documentName?: string;
+  metadata?: DocumentMetadata;
+  signal?: AbortSignal;
+  onUpdate: (id: string, update: Partial<BatchProposal>) => void;
+}
+
+/**
+ * Enhance every queued proposal, throttled to BATCH_CONCURRENCY requests
+ * Failures are recorded on the proposal instead of stopping the batch
+ */
+export async function runBatchEnhancement({
+  proposals,
+  instructions,
+  fullDocumentHtml,
+  documentName,
+  metadata,
+  signal,
+  onUpdate,
+}: RunBatchOptions): Promise<void> {
+  await runWithConcurrency(
+    proposals,
+    BATCH_CONCURRENCY,
+    async (proposal) => {
+      onUpdate(proposal.id, { status: 'running' });
+
+      try {
+        const result = await enhanceContent(
+          {
+            fullDocumentHtml,
+            targetBlockHtml: proposal.targetBlockHtml,
+            instructions,
+            documentName,
+            metadata,
+          },
+          signal
+        );
+
+        const unchanged = result.newHtml.trim() === proposal.originalHtml.trim();
+        onUpdate(proposal.id, {
+          status: unchanged ? 'unchanged' : 'ready',
+          proposedHtml: result.newHtml,
+          model: result.model,
+          warnings: result.warnings,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          onUpdate(proposal.id, { status: 'queued' });
+          return;
+        }
+        onUpdate(proposal.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to enhance block',
+        });
+      }
+    },
+    signal
+  );
+}
+
+/**
+ * Propose the given proposals' HTML as tracked changes to their target blocks
+ * Applied bottom-up in one transaction so earlier positions stay valid.
+ * Returns the ids that were applied and the ids whose block changed meanwhile.
+ */
+export function applyBatchProposals(
+  editor: Editor,
+  proposals: BatchProposal[]
+): { applied: string[]; stale: string[]; invalid: string[] } {
+  const applied: string[] = [];
+  const stale: string[] = [];
+  const invalid: string[] = []; // Proposed HTML isn't valid content for the block
+
+  const chain = editor.chain().focus();
+
+  const sorted = [...proposals].sort((a, b) => b.from - a.from);
+  for (const proposal of sorted) {
+    if (!proposal.proposedHtml || !isProposalCurrent(editor, proposal)) {
+      stale.push(proposal.id);
+      continue;
+    }
+    // Later proposals are applied first, so positions still refer to the current document
+    if (!parseReplacement(editor.state.doc, proposal.from, proposal.to, proposal.proposedHtml)) {
+      invalid.push(proposal.id);
+      continue;
+    }
+    chain.suggestReplacement({
+      from: proposal.from,
+      to: proposal.to,
+      html: proposal.proposedHtml,
+      suggestionId: proposal.id, // Lets the editor attribute the suggestion to this proposal
+    });
+    applied.push(proposal.id);
+  }
+
+  if (applied.length > 0) {
+    chain
+      .labelAiStep(
+        `Enhance Whole Document (${applied.length} suggestion${applied.length !== 1 ? 's' : ''})`
+      )
+      .run();
+  }
+
+  return { applied, stale, invalid };
+}
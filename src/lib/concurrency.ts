@@ -0,0 +1,27 @@
+/**
+ * Concurrency helpers for throttling batches of API calls
+ */
+
+/**
+ * Run an async worker over items with at most `limit` calls in flight
+ * Workers should handle their own errors; a rejected worker stops the run.
+ * When the signal is aborted, no new items are started (in-flight ones finish).
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runNext);
+  await Promise.all(runners);
+}
@@ -0,0 +1,141 @@
+/**
+ * Importing Confluence pages as documents
+ * Shared by the single-page form and the space / page tree import
+ */
+
+import { analyzeDocument, type ConfluencePageSummary, fetchFromConfluence } from './api-client';
+import { runWithConcurrency } from './concurrency';
+import { htmlToTiptapJson } from './content-converters';
+import type { ConfluenceCredentials } from './settings';
+import { type Document, storage } from './storage';
+import { recordVersion } from './versions';
+
+/** Maximum number of pages imported in parallel (each page is a fetch plus an AI analysis) */
+export const TREE_IMPORT_CONCURRENCY = 2;
+
+export interface ConfluenceImportResult {
+  document: Document;
+  failedImages: number; // Attachment images that could not be embedded
+}
+
+/**
+ * Fetch a page, extract its metadata and save it as a new document
+ * Metadata analysis is best-effort; the page is saved without it if analysis fails.
+ */
+export async function importConfluencePage(
+  confluenceUrl: string,
+  credentials: ConfluenceCredentials,
+  name?: string
+): Promise<ConfluenceImportResult> {
+  // Fetch content from Confluence (returns sanitized HTML)
+  const confluenceData = await fetchFromConfluence(confluenceUrl, credentials);
+
+  const documentName = name || confluenceData.title;
+  const htmlContent = confluenceData.content;
+
+  // Convert HTML to Tiptap JSON
+  const tiptapJson = htmlToTiptapJson(htmlContent);
+
+  // Analyze document to extract metadata
+  let metadata: Document['metadata'];
+  try {
+    metadata = await analyzeDocument({
+      fullDocumentHtml: htmlContent,
+      documentName,
+    });
+    console.log('Document metadata extracted:', metadata);
+  } catch (metadataError) {
+    console.warn('Failed to extract metadata, continuing without it:', metadataError);
+    // Continue saving without metadata if analysis fails
+  }
+
+  // Save document with Tiptap JSON content and metadata
+  const document = await storage.addDocument({
+    name: documentName,
+    confluenceUrl,
+    confluenceVersion: confluenceData.version,
+    confluenceLastModified: confluenceData.lastModified,
+    content: tiptapJson,
+    confluenceBaseContent: tiptapJson,
+    metadata,
+  });
+  await recordVersion(
+    document.id,
+    tiptapJson,
+    'import',
+    `Confluence version ${confluenceData.version}`
+  );
+
+  return { document, failedImages: confluenceData.failedImages ?? 0 };
+}
+
+export type PageImportStatus = 'queued' | 'importing' | 'imported' | 'failed' | 'cancelled';
+
+export interface PageImportProgress {
+  page: ConfluencePageSummary;
+  status: PageImportStatus;
+  error?: string;
+}
+
+/**
+ * Import a list of pages with at most TREE_IMPORT_CONCURRENCY in flight
+ * onProgress is called with the full progress list after every status change.
+ * Failures are recorded per page and don't stop the run; aborting the signal
+ * leaves the pages that haven't started as 'cancelled'.
+ */
+export async function importConfluencePages(
+  pages: ConfluencePageSummary[],
+  credentials: ConfluenceCredentials,
+  options: {
+    onProgress?: (progress: PageImportProgress[]) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<PageImportProgress[]> {
+  const progress: PageImportProgress[] = pages.map((page) => ({ page, status: 'queued' }));
+
+  const update = (index: number, changes: Partial<PageImportProgress>) => {
+    progress[index] = { ...progress[index], ...changes };
+    options.onProgress?.([...progress]);
+  };
+
+  await runWithConcurrency(
+    pages,
+    TREE_IMPORT_CONCURRENCY,
+    async (page, index) => {
+      update(index, { status: 'importing' });
+      try {
+        await importConfluencePage(page.url, credentials);
+        update(index, { status: 'imported' });
+      } catch (error) {
+        update(index, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to import page',
+        });
+      }
+    },
+    options.signal
+  );
+
+  for (let index = 0; index < progress.length; index++) {
+    if (progress[index].status === 'queued') {
+      progress[index] = { ...progress[index], status: 'cancelled' };
+    }
+  }
+  options.onProgress?.([...progress]);
+
+  return progress;
+}
+
+/**
+ * Page IDs of documents that were already imported from Confluence
+ */
+export async function getImportedPageIds(): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (const doc of await storage.getDocuments()) {
+    // Same URL formats as extractPageId in api/utils/confluence.ts
+    const match =
+      doc.confluenceUrl.match(/\/pages\/(\d+)/) ?? doc.confluenceUrl.match(/[?&]pageId=(\d+)/);
+    if (match) ids.add(match[1]);
+  }
+  return ids;
+}
@@ -0,0 +1,237 @@
+/**
+ * Tiptap nodes for Confluence macros
+ * The HTML these parse is produced on import by api/utils/confluence-macros.ts,
+ * and the node JSON is converted back to macros on publish by
+ * api/utils/confluence-storage.ts. Keep the three in sync.
+ */
+
+import { Image } from '@tiptap/extension-image';
+import { mergeAttributes, Node } from '@tiptap/react';
+
+/**
+ * Node attribute stored as a data-* attribute in HTML
+ */
+function dataAttribute(
+  attribute: string,
+  defaultValue: string | null = null,
+  htmlName: string = attribute
+) {
+  return {
+    default: defaultValue,
+    parseHTML: (element: HTMLElement) => element.getAttribute(`data-${htmlName}`) ?? defaultValue,
+    renderHTML: (attributes: Record<string, unknown>) => ({
+      [`data-${htmlName}`]: attributes[attribute],
+    }),
+  };
+}
+
+/**
+ * Info / note / warning / tip panel
+ */
+export const Panel = Node.create({
+  name: 'panel',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      panelType: {
+        default: 'info',
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-panel') || 'info',
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          'data-panel': attributes.panelType,
+        }),
+      },
+      title: dataAttribute('title'),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-panel]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes({ class: 'confluence-panel' }, HTMLAttributes), 0];
+  },
+});
+
+/**
+ * Expand (collapsible) section, always shown expanded in the editor
+ */
+export const Expand = Node.create({
+  name: 'expand',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      title: dataAttribute('title'),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-expand]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes({ 'data-expand': '', class: 'confluence-expand' }, HTMLAttributes),
+      0,
+    ];
+  },
+});
+
+/**
+ * Status lozenge
+ */
+export const StatusMacro = Node.create({
+  name: 'status',
+  group: 'inline',
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return {
+      colour: dataAttribute('colour', 'Grey'),
+      title: dataAttribute('title', ''),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-status]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-status': '', class: 'confluence-status' }, HTMLAttributes),
+      node.attrs.title || '',
+    ];
+  },
+});
+
+/**
+ * Single Jira issue link
+ */
+export const JiraIssue = Node.create({
+  name: 'jiraIssue',
+  group: 'inline',
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return {
+      issueKey: dataAttribute('issueKey', '', 'jira-key'),
+      server: dataAttribute('server', '', 'jira-server'),
+      serverId: dataAttribute('serverId', '', 'jira-server-id'),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-jira-key]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ class: 'confluence-jira' }, HTMLAttributes),
+      node.attrs.issueKey || '',
+    ];
+  },
+});
+
+/**
+ * Attribute renderers for opaque macros: name, display label and the original storage XML
+ */
+function opaqueMacroAttributes() {
+  return {
+    name: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-confluence-macro'),
+      renderHTML: (attributes: Record<string, unknown>) => ({
+        'data-confluence-macro': attributes.name,
+      }),
+    },
+    label: dataAttribute('label', ''),
+    storage: dataAttribute('storage', ''),
+  };
+}
+
+/**
+ * Block-level macro the editor can't represent (toc, task lists, unknown macros)
+ * Shown as a read-only placeholder and published back unchanged
+ */
+export const ConfluenceMacro = Node.create({
+  name: 'confluenceMacro',
+  group: 'block',
+  atom: true,
+
+  addAttributes() {
+    return opaqueMacroAttributes();
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-confluence-macro]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes({ class: 'confluence-macro' }, HTMLAttributes),
+      node.attrs.label || node.attrs.name || 'Confluence macro',
+    ];
+  },
+});
+
+/**
+ * Inline counterpart of ConfluenceMacro (page links, emoticons, inline macros)
+ */
+export const ConfluenceInlineMacro = Node.create({
+  name: 'confluenceInlineMacro',
+  group: 'inline',
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return opaqueMacroAttributes();
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-confluence-macro]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ class: 'confluence-macro' }, HTMLAttributes),
+      node.attrs.label || node.attrs.name || 'macro',
+    ];
+  },
+});
+
+/**
+ * Image that remembers the Confluence attachment it was imported from
+ */
+export const ConfluenceImage = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      attachment: dataAttribute('attachment'),
+    };
+  },
+});
+
+/**
+ * All Confluence macro nodes (the image extension is configured separately)
+ */
+export const confluenceMacroNodes = [
+  Panel,
+  Expand,
+  StatusMacro,
+  JiraIssue,
+  ConfluenceMacro,
+  ConfluenceInlineMacro,
+];
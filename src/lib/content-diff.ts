@@ -0,0 +1,127 @@
+/**
+ * Block-level diffing of Tiptap documents
+ * Documents are compared by their top-level nodes (paragraphs, headings,
+ * lists, tables...), which is the granularity Confluence edits show up at
+ */
+
+import { tiptapJsonToHtml } from './content-converters';
+
+export interface TiptapJsonNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: TiptapJsonNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+export type DiffOperation<T> =
+  | { type: 'equal'; item: T }
+  | { type: 'removed'; item: T }
+  | { type: 'added'; item: T };
+
+/**
+ * Top-level blocks of a Tiptap document
+ */
+export function getTopLevelBlocks(doc: TiptapJsonNode | null | undefined): TiptapJsonNode[] {
+  return doc?.content ?? [];
+}
+
+/**
+ * Stable comparison key for a block
+ */
+export function blockKey(block: TiptapJsonNode): string {
+  return JSON.stringify(block);
+}
+
+/**
+ * Render a document as one HTML line per top-level block, for line-based diff views
+ */
+export function tiptapJsonToBlockLines(doc: TiptapJsonNode | null | undefined): string {
+  return getTopLevelBlocks(doc)
+    .map((block) => tiptapJsonToHtml({ type: 'doc', content: [block] }))
+    .join('\n');
+}
+
+/**
+ * Pairs of indices [indexInA, indexInB] of a longest common subsequence of two key lists
+ */
+export function matchSequences(aKeys: string[], bKeys: string[]): Array<[number, number]> {
+  const lcs = Array.from({ length: aKeys.length + 1 }, () => new Uint32Array(bKeys.length + 1));
+  for (let i = aKeys.length - 1; i >= 0; i--) {
+    for (let j = bKeys.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        aKeys[i] === bKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < aKeys.length && j < bKeys.length) {
+    if (aKeys[i] === bKeys[j]) {
+      matches.push([i, j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Diff two sequences with a longest common subsequence
+ * Within each run of changes, removals are listed before additions
+ */
+export function diffSequences<T>(a: T[], b: T[], key: (item: T) => string): DiffOperation<T>[] {
+  const operations: DiffOperation<T>[] = [];
+  let i = 0;
+  let j = 0;
+
+  const pushChanges = (untilA: number, untilB: number) => {
+    for (; i < untilA; i++) operations.push({ type: 'removed', item: a[i] });
+    for (; j < untilB; j++) operations.push({ type: 'added', item: b[j] });
+  };
+
+  for (const [matchA, matchB] of matchSequences(a.map(key), b.map(key))) {
+    pushChanges(matchA, matchB);
+    operations.push({ type: 'equal', item: a[i] });
+    i++;
+    j++;
+  }
+  pushChanges(a.length, b.length);
+
+  return operations;
+}
+
+/**
+ * Check whether two documents have the same blocks
+ */
+export function hasBlockChanges(
+  local: TiptapJsonNode | null | undefined,
+  upstream: TiptapJsonNode | null | undefined
+): boolean {
+  return diffSequences(getTopLevelBlocks(local), getTopLevelBlocks(upstream), blockKey).some(
+    (operation) => operation.type !== 'equal'
+  );
+}
+
+/**
+ * Two-way merge: keep every local block and add the blocks that only exist
+ * upstream at their position. Blocks changed on both sides end up twice
+ * (local version first) for the user to clean up.
+ */
+export function mergeBlocksTwoWay(
+  local: TiptapJsonNode | null | undefined,
+  upstream: TiptapJsonNode | null | undefined
+): TiptapJsonNode {
+  const operations = diffSequences(getTopLevelBlocks(local), getTopLevelBlocks(upstream), blockKey);
+
+  return {
+    type: 'doc',
+    content: operations.map((operation) => operation.item),
+  };
+}
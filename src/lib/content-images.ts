@@ -0,0 +1,136 @@
+/**
+ * Moving embedded images out of Tiptap JSON and back
+ * Documents are stored with image sources replaced by references to blobs
+ * keyed by content hash, so identical images are stored once and document
+ * records stay small.
+ */
+
+const IMAGE_REF_PREFIX = 'stored-image:';
+
+interface ContentNode {
+  type?: string;
+  attrs?: Record<string, unknown>;
+  content?: ContentNode[];
+  [key: string]: unknown;
+}
+
+/**
+ * Replace data URI image sources with references
+ * Returns the rewritten content and the blobs it references, keyed by hash.
+ */
+export async function extractImages<T>(
+  content: T
+): Promise<{ content: T; images: Map<string, Blob> }> {
+  const images = new Map<string, Blob>();
+  const hashes = new Map<string, string>(); // Data URI → hash, for repeated images
+
+  const rewritten = await mapImageSources(content, async (src) => {
+    if (!src.startsWith('data:')) return src;
+
+    let hash = hashes.get(src);
+    if (!hash) {
+      const blob = dataUriToBlob(src);
+      hash = await hashBlob(blob);
+      hashes.set(src, hash);
+      images.set(hash, blob);
+    }
+    return `${IMAGE_REF_PREFIX}${hash}`;
+  });
+
+  return { content: rewritten, images };
+}
+
+/**
+ * Replace image references with data URIs
+ * References whose blob is missing are left as-is (the image shows as broken).
+ */
+export async function restoreImages<T>(
+  content: T,
+  loadImage: (hash: string) => Promise<string | null>
+): Promise<T> {
+  return mapImageSources(content, async (src) => {
+    if (!src.startsWith(IMAGE_REF_PREFIX)) return src;
+    return (await loadImage(src.slice(IMAGE_REF_PREFIX.length))) ?? src;
+  });
+}
+
+/**
+ * Hashes of all image references in stored content
+ */
+export function collectImageHashes(content: unknown, hashes: Set<string> = new Set()): Set<string> {
+  walk(content, (node) => {
+    const src = node.attrs?.src;
+    if (typeof src === 'string' && src.startsWith(IMAGE_REF_PREFIX)) {
+      hashes.add(src.slice(IMAGE_REF_PREFIX.length));
+    }
+  });
+  return hashes;
+}
+
+export function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function dataUriToBlob(dataUri: string): Blob {
+  const [header, data = ''] = dataUri.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isContentNode(value: unknown): value is ContentNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function walk(value: unknown, visit: (node: ContentNode) => void): void {
+  if (Array.isArray(value)) {
+    for (const item of value) walk(item, visit);
+    return;
+  }
+  if (!isContentNode(value)) return;
+
+  visit(value);
+  if (value.content) walk(value.content, visit);
+}
+
+/**
+ * Copy content with every image node's src passed through `map`
+ */
+async function mapImageSources<T>(content: T, map: (src: string) => Promise<string>): Promise<T> {
+  const mapNode = async (value: unknown): Promise<unknown> => {
+    if (Array.isArray(value)) {
+      return Promise.all(value.map(mapNode));
+    }
+    if (!isContentNode(value)) return value;
+
+    const node: ContentNode = { ...value };
+    if (node.type === 'image' && typeof node.attrs?.src === 'string') {
+      node.attrs = { ...node.attrs, src: await map(node.attrs.src) };
+    }
+    if (node.content) {
+      node.content = (await mapNode(node.content)) as ContentNode[];
+    }
+    return node;
+  };
+
+  return (await mapNode(content)) as T;
+}
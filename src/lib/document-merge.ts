@@ -0,0 +1,151 @@
+/**
+ * Block-level three-way merge of Tiptap documents
+ * base = content when the page was last synced with Confluence,
+ * ours = local content, theirs = latest page from Confluence.
+ * Blocks changed on only one side are merged automatically; regions changed
+ * differently on both sides are returned as conflicts for the user to resolve.
+ */
+
+import { blockKey, getTopLevelBlocks, matchSequences, type TiptapJsonNode } from './content-diff';
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+export interface MergeConflict {
+  id: string;
+  base: TiptapJsonNode[];
+  ours: TiptapJsonNode[];
+  theirs: TiptapJsonNode[];
+}
+
+export type MergeSegment =
+  | { type: 'resolved'; blocks: TiptapJsonNode[] }
+  | { type: 'conflict'; conflict: MergeConflict };
+
+export interface ThreeWayMergeResult {
+  segments: MergeSegment[];
+  conflicts: MergeConflict[];
+  autoMerged: number; // Regions taken from Confluence without a conflict
+}
+
+/**
+ * Merge local and upstream changes against their common base
+ */
+export function mergeBlocksThreeWay(
+  base: TiptapJsonNode | null | undefined,
+  ours: TiptapJsonNode | null | undefined,
+  theirs: TiptapJsonNode | null | undefined
+): ThreeWayMergeResult {
+  const baseBlocks = getTopLevelBlocks(base);
+  const ourBlocks = getTopLevelBlocks(ours);
+  const theirBlocks = getTopLevelBlocks(theirs);
+
+  const baseKeys = baseBlocks.map(blockKey);
+  const ourKeys = ourBlocks.map(blockKey);
+  const theirKeys = theirBlocks.map(blockKey);
+
+  // Base blocks kept unchanged on each side, keyed by base index
+  const oursByBase = new Map(matchSequences(baseKeys, ourKeys));
+  const theirsByBase = new Map(matchSequences(baseKeys, theirKeys));
+
+  const segments: MergeSegment[] = [];
+  const conflicts: MergeConflict[] = [];
+  let autoMerged = 0;
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+
+  const pushResolved = (blocks: TiptapJsonNode[]) => {
+    if (blocks.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'resolved') {
+      last.blocks.push(...blocks);
+    } else {
+      segments.push({ type: 'resolved', blocks: [...blocks] });
+    }
+  };
+
+  // Resolve the changed region between two stable blocks
+  const mergeRegion = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseRegion = baseKeys.slice(baseIndex, baseEnd);
+    const ourRegion = ourKeys.slice(ourIndex, ourEnd);
+    const theirRegion = theirKeys.slice(theirIndex, theirEnd);
+    const oursChanged = !sameKeys(ourRegion, baseRegion);
+    const theirsChanged = !sameKeys(theirRegion, baseRegion);
+
+    if (!theirsChanged || sameKeys(ourRegion, theirRegion)) {
+      pushResolved(ourBlocks.slice(ourIndex, ourEnd));
+    } else if (!oursChanged) {
+      pushResolved(theirBlocks.slice(theirIndex, theirEnd));
+      autoMerged++;
+    } else {
+      const conflict: MergeConflict = {
+        id: crypto.randomUUID(),
+        base: baseBlocks.slice(baseIndex, baseEnd),
+        ours: ourBlocks.slice(ourIndex, ourEnd),
+        theirs: theirBlocks.slice(theirIndex, theirEnd),
+      };
+      segments.push({ type: 'conflict', conflict });
+      conflicts.push(conflict);
+    }
+
+    baseIndex = baseEnd;
+    ourIndex = ourEnd;
+    theirIndex = theirEnd;
+  };
+
+  for (let i = 0; i < baseBlocks.length; i++) {
+    const ourMatch = oursByBase.get(i);
+    const theirMatch = theirsByBase.get(i);
+
+    // Stable block: unchanged on both sides, after everything consumed so far
+    if (
+      ourMatch === undefined ||
+      theirMatch === undefined ||
+      ourMatch < ourIndex ||
+      theirMatch < theirIndex
+    ) {
+      continue;
+    }
+
+    mergeRegion(i, ourMatch, theirMatch);
+    pushResolved([ourBlocks[ourMatch]]);
+    baseIndex++;
+    ourIndex++;
+    theirIndex++;
+  }
+
+  mergeRegion(baseBlocks.length, ourBlocks.length, theirBlocks.length);
+
+  return { segments, conflicts, autoMerged };
+}
+
+/**
+ * Build the merged document from merge segments and the user's conflict choices
+ * Unresolved conflicts keep the local blocks.
+ */
+export function buildMergedDocument(
+  segments: MergeSegment[],
+  resolutions: Record<string, ConflictResolution>
+): TiptapJsonNode {
+  const content = segments.flatMap((segment) => {
+    if (segment.type === 'resolved') {
+      return segment.blocks;
+    }
+
+    const { conflict } = segment;
+    switch (resolutions[conflict.id] ?? 'ours') {
+      case 'theirs':
+        return conflict.theirs;
+      case 'both':
+        return [...conflict.ours, ...conflict.theirs];
+      default:
+        return conflict.ours;
+    }
+  });
+
+  return { type: 'doc', content };
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, index) => key === b[index]);
+}
@@ -0,0 +1,60 @@
+/**
+ * Unsaved editor drafts
+ * The editor writes its content here shortly after every change, before the
+ * debounced autosave reaches the document store. A draft is removed once its
+ * content has been saved, so one that is still around when a document is
+ * opened again holds changes lost to a crash or a closed tab.
+ *
+ * Drafts are kept in localStorage even in server storage mode: they belong to
+ * this browser, and localStorage can be written synchronously while a page unloads.
+ */
+
+import type { JSONContent } from '@tiptap/react';
+
+export interface DocumentDraft {
+  documentId: string;
+  content: JSONContent;
+  savedAt: string;
+}
+
+const DRAFT_KEY_PREFIX = 'doc-enhancer:draft:';
+
+/**
+ * Store the editor content of a document
+ * Returns false when the draft couldn't be stored, e.g. because it exceeds the localStorage quota.
+ */
+export function saveDraft(documentId: string, content: JSONContent): boolean {
+  const draft: DocumentDraft = { documentId, content, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(draftKey(documentId), JSON.stringify(draft));
+    return true;
+  } catch (error) {
+    console.warn('Failed to save draft:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the unsaved draft of a document, if there is one
+ */
+export function getDraft(documentId: string): DocumentDraft | null {
+  try {
+    const data = localStorage.getItem(draftKey(documentId));
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to load draft:', error);
+    return null;
+  }
+}
+
+export function clearDraft(documentId: string): void {
+  try {
+    localStorage.removeItem(draftKey(documentId));
+  } catch (error) {
+    console.error('Failed to clear draft:', error);
+  }
+}
+
+function draftKey(documentId: string): string {
+  return `${DRAFT_KEY_PREFIX}${documentId}`;
+}
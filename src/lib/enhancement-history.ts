@@ -0,0 +1,86 @@
+/**
+ * Enhancement history
+ * Suggestions only exist in the editor until they are accepted or rejected;
+ * at that point the affected blocks, the instructions and the model used are
+ * recorded per document so past enhancements can be reviewed, re-applied
+ * elsewhere or reverted.
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { JSONContent } from '@tiptap/react';
+import { getEditorPreferences } from './settings';
+import {
+  type DocumentMetadata,
+  type EnhancementRecord,
+  type EnhancementSource,
+  storage,
+} from './storage';
+
+/**
+ * How a pending suggestion was produced, kept until it is resolved
+ */
+export interface SuggestionDetails {
+  source: EnhancementSource;
+  instructions: string;
+  model?: string;
+  metadata?: DocumentMetadata;
+}
+
+/**
+ * Save a resolved suggestion to the document's enhancement history
+ * Rejected suggestions are only kept when the editor preference asks for it.
+ * Suggestions whose details are unknown (e.g. made before a reload) are
+ * recorded with empty instructions.
+ */
+export async function recordEnhancement(
+  documentId: string,
+  status: 'accepted' | 'rejected',
+  blocks: { original: JSONContent[]; suggested: JSONContent[] },
+  details?: SuggestionDetails
+): Promise<EnhancementRecord | null> {
+  if (status === 'rejected' && !getEditorPreferences().recordRejectedEnhancements) {
+    return null;
+  }
+
+  return storage.addHistory({
+    documentId,
+    originalContent: { type: 'doc', content: blocks.original },
+    enhancedContent: { type: 'doc', content: blocks.suggested },
+    instructions: details?.instructions ?? '',
+    status,
+    source: details?.source,
+    model: details?.model,
+    metadata: details?.metadata,
+  });
+}
+
+/**
+ * Position of a run of sibling blocks matching `blocks` exactly, if the document contains one
+ * Used to check that an enhanced block hasn't been edited since, before reverting it.
+ */
+export function findBlockRange(
+  doc: ProseMirrorNode,
+  blocks: JSONContent[]
+): { from: number; to: number } | null {
+  if (blocks.length === 0) return null;
+
+  const keys = blocks.map((block) => JSON.stringify(block));
+  let range: { from: number; to: number } | null = null;
+
+  doc.descendants((node, pos, parent, index) => {
+    if (range) return false;
+    if (!parent || JSON.stringify(node.toJSON()) !== keys[0]) return true;
+
+    let to = pos;
+    for (let offset = 0; offset < keys.length; offset++) {
+      const sibling = index + offset < parent.childCount ? parent.child(index + offset) : null;
+      if (!sibling || JSON.stringify(sibling.toJSON()) !== keys[offset]) return true;
+      to += sibling.nodeSize;
+    }
+
+    range = { from: pos, to };
+    return false;
+  });
+
+  return range;
+}
@@ -0,0 +1,320 @@
+/**
+ * Storage backed by the shared document store API (api/documents, api/history, api/versions)
+ * Used instead of IndexedDB when storage mode is "server" in Settings, so
+ * documents, versions and enhancement history are shared by everyone using that server.
+ *
+ * Images stay inline as data URIs; the server stores records as-is.
+ * Updates carry the updatedAt of the copy they're based on, so saving over a
+ * teammate's newer changes fails with DOCUMENT_CONFLICT instead.
+ */
+
+import { ApiRequestError, apiFetch } from './api-client';
+import type { StorageSettings } from './settings';
+import type {
+  Document,
+  DocumentVersion,
+  EnhancementRecord,
+  StorageBackend,
+  StorageUsage,
+} from './storage';
+
+// updatedAt of each document as last read from or written to the server
+// Module-level because a new ServerStorage is created for every storage call.
+const knownUpdatedAt = new Map<string, string>();
+
+interface StoreInfo {
+  documents: number;
+  history: number;
+  versions: number;
+  bytes: number;
+}
+
+export class ServerStorage implements StorageBackend {
+  private readonly baseUrl: string;
+  private readonly token: string;
+
+  constructor(settings: Pick<StorageSettings, 'serverUrl' | 'serverToken'>) {
+    this.baseUrl = settings.serverUrl.replace(/\/+$/, '');
+    this.token = settings.serverToken;
+  }
+
+  // ========== Documents ==========
+
+  async getDocuments(): Promise<Document[]> {
+    const docs: Document[] = await this.request(
+      'GET',
+      '/api/documents',
+      undefined,
+      'Failed to load documents'
+    );
+    rememberDocuments(docs);
+    return docs;
+  }
+
+  async getDocument(id: string): Promise<Document | null> {
+    const doc = await this.orNullIfNotFound<Document>(
+      this.request('GET', documentPath(id), undefined, 'Failed to load document')
+    );
+    if (doc) rememberDocuments([doc]);
+    return doc;
+  }
+
+  /**
+   * Replace all documents, keeping the history and versions of documents that remain
+   */
+  async saveDocuments(docs: Document[]): Promise<void> {
+    const ids = new Set(docs.map((doc) => doc.id));
+    const history = (await this.getHistory()).filter((record) => ids.has(record.documentId));
+    const versions = await this.getAllVersions(docs);
+    await this.request(
+      'PUT',
+      '/api/documents',
+      { documents: docs, history, versions },
+      'Failed to save documents'
+    );
+    rememberDocuments(docs);
+  }
+
+  async addDocument(doc: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Promise<Document> {
+    const newDoc: Document = await this.request(
+      'POST',
+      '/api/documents',
+      doc,
+      'Failed to save document'
+    );
+    rememberDocuments([newDoc]);
+    return newDoc;
+  }
+
+  /**
+   * Fails with a DOCUMENT_CONFLICT error if the document changed on the server since it was read
+   */
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | null> {
+    const updated = await this.orNullIfNotFound<Document>(
+      this.request(
+        'PATCH',
+        documentPath(id),
+        { ...updates, baseUpdatedAt: knownUpdatedAt.get(id) },
+        'Failed to update document'
+      )
+    );
+    if (updated) rememberDocuments([updated]);
+    return updated;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = await this.orNullIfNotFound(
+      this.request('DELETE', documentPath(id), undefined, 'Failed to delete document').then(
+        () => true
+      )
+    );
+    knownUpdatedAt.delete(id);
+    return deleted ?? false;
+  }
+
+  // ========== Enhancement History ==========
+
+  async getHistory(documentId?: string): Promise<EnhancementRecord[]> {
+    const query = documentId ? `?documentId=${encodeURIComponent(documentId)}` : '';
+    return this.request('GET', `/api/history${query}`, undefined, 'Failed to load history');
+  }
+
+  async addHistory(
+    record: Omit<EnhancementRecord, 'id' | 'createdAt'>
+  ): Promise<EnhancementRecord> {
+    return this.request('POST', '/api/history', record, 'Failed to save enhancement history');
+  }
+
+  async getLatestEnhancement(documentId: string): Promise<EnhancementRecord | null> {
+    const history = await this.getHistory(documentId);
+    return history.length > 0 ? history[history.length - 1] : null; // Oldest first
+  }
+
+  async deleteHistory(id: string): Promise<boolean> {
+    const deleted = await this.orNullIfNotFound(
+      this.request(
+        'DELETE',
+        `/api/history/${encodeURIComponent(id)}`,
+        undefined,
+        'Failed to delete history record'
+      ).then(() => true)
+    );
+    return deleted ?? false;
+  }
+
+  // ========== Versions ==========
+
+  async getVersions(documentId: string): Promise<DocumentVersion[]> {
+    return this.request(
+      'GET',
+      `/api/versions?documentId=${encodeURIComponent(documentId)}`,
+      undefined,
+      'Failed to load versions'
+    );
+  }
+
+  async addVersion(version: Omit<DocumentVersion, 'id' | 'createdAt'>): Promise<DocumentVersion> {
+    return this.request('POST', '/api/versions', version, 'Failed to save version');
+  }
+
+  async updateVersion(
+    id: string,
+    updates: Partial<Pick<DocumentVersion, 'tag' | 'note'>>
+  ): Promise<DocumentVersion | null> {
+    return this.orNullIfNotFound(
+      this.request(
+        'PATCH',
+        `/api/versions/${encodeURIComponent(id)}`,
+        updates,
+        'Failed to update version'
+      )
+    );
+  }
+
+  // ========== Utility Methods ==========
+
+  /**
+   * Remove every document on the server, for everyone using it
+   * The server refuses this unless it has DOCUMENT_STORE_TOKEN set.
+   */
+  async clearAll(): Promise<void> {
+    await this.request(
+      'DELETE',
+      '/api/documents?scope=all',
+      undefined,
+      'Failed to clear documents'
+    );
+    knownUpdatedAt.clear();
+  }
+
+  async exportData(): Promise<string> {
+    const documents = await this.getDocuments();
+    return JSON.stringify(
+      {
+        documents,
+        history: await this.getHistory(),
+        versions: await this.getAllVersions(documents),
+        exportedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    );
+  }
+
+  async importData(jsonString: string): Promise<{
+    success: boolean;
+    documentsImported: number;
+    historyImported: number;
+    error?: string;
+  }> {
+    try {
+      const data = JSON.parse(jsonString);
+
+      if (!data.documents || !Array.isArray(data.documents)) {
+        return {
+          success: false,
+          documentsImported: 0,
+          historyImported: 0,
+          error: 'Invalid data format: documents array not found',
+        };
+      }
+
+      // Without history or versions in the file, those of the imported documents are kept
+      const documents: Document[] = data.documents;
+      const ids = new Set(documents.map((doc) => doc.id));
+      const history: EnhancementRecord[] = Array.isArray(data.history)
+        ? data.history
+        : (await this.getHistory()).filter((record) => ids.has(record.documentId));
+      const versions: DocumentVersion[] = Array.isArray(data.versions)
+        ? data.versions
+        : await this.getAllVersions(documents);
+
+      await this.request(
+        'PUT',
+        '/api/documents',
+        { documents, history, versions },
+        'Failed to import data'
+      );
+      rememberDocuments(documents);
+
+      return {
+        success: true,
+        documentsImported: documents.length,
+        historyImported: Array.isArray(data.history) ? history.length : 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        documentsImported: 0,
+        historyImported: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Size of the server's database; the server reports no quota
+   */
+  async getStorageSize(): Promise<StorageUsage> {
+    const info: StoreInfo = await this.request(
+      'GET',
+      '/api/store-info',
+      undefined,
+      'Failed to load storage information'
+    );
+    return { used: info.bytes, available: null, percentage: null };
+  }
+
+  // ========== Internals ==========
+
+  /**
+   * Stored versions of the given documents (none for documents the server doesn't have)
+   */
+  private async getAllVersions(documents: Document[]): Promise<DocumentVersion[]> {
+    const versions = await Promise.all(documents.map((doc) => this.getVersions(doc.id)));
+    return versions.flat();
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    fallbackMessage: string
+  ): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const response = await apiFetch(
+      `${this.baseUrl}${path}`,
+      {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fallbackMessage
+    );
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  /**
+   * Resolve 404 responses to null, matching the local storage API
+   */
+  private async orNullIfNotFound<T>(promise: Promise<T>): Promise<T | null> {
+    try {
+      return await promise;
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status === 404) return null;
+      throw error;
+    }
+  }
+}
+
+function rememberDocuments(docs: Document[]): void {
+  for (const doc of docs) knownUpdatedAt.set(doc.id, doc.updatedAt);
+}
+
+function documentPath(id: string): string {
+  return `/api/documents/${encodeURIComponent(id)}`;
+}
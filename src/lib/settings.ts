@@ -3,12 +3,43 @@
  * Stores settings in localStorage
  */
 
+export type DeploymentType = 'cloud' | 'server';
+
+/**
+ * How requests authenticate
+ * - basic: email + API token (Cloud) or username + password (Server / DC)
+ * - bearer: personal access token (Server / DC)
+ */
+export type AuthScheme = 'basic' | 'bearer';
+
 export interface ConfluenceSettings {
   confluenceToken: string;
-  confluenceEmail: string;
+  confluenceEmail: string; // Username for Server / DC basic auth; unused with bearer auth
   confluenceBaseUrl: string;
+  deploymentType: DeploymentType;
+  contextPath: string; // Path Confluence is served from, e.g. "/wiki" (Cloud) or "" / "/confluence"
+  authScheme: AuthScheme;
 }
 
+/**
+ * Credentials and connection options sent to the API with every Confluence request
+ */
+export type ConfluenceCredentials = Pick<
+  ConfluenceSettings,
+  'confluenceToken' | 'confluenceEmail' | 'deploymentType' | 'contextPath' | 'authScheme'
+>;
+
+/**
+ * Connection defaults for each deployment type
+ */
+export const DEPLOYMENT_DEFAULTS: Record<
+  DeploymentType,
+  Pick<ConfluenceSettings, 'contextPath' | 'authScheme'>
+> = {
+  cloud: { contextPath: '/wiki', authScheme: 'basic' },
+  server: { contextPath: '', authScheme: 'bearer' },
+};
+
 const SETTINGS_KEY = 'doc-enhancer:settings';
 
 /**
@@ -18,7 +49,14 @@ export function getSettings(): ConfluenceSettings | null {
   try {
     const data = localStorage.getItem(SETTINGS_KEY);
     if (!data) return null;
-    return JSON.parse(data);
+    const settings = JSON.parse(data);
+    // Settings saved before Server / DC support are Cloud settings
+    const deploymentType: DeploymentType = settings.deploymentType ?? 'cloud';
+    return {
+      ...DEPLOYMENT_DEFAULTS[deploymentType],
+      ...settings,
+      deploymentType,
+    };
   } catch (error) {
     console.error('Failed to load settings:', error);
     return null;
@@ -37,6 +75,19 @@ export function saveSettings(settings: ConfluenceSettings): void {
   }
 }
 
+/**
+ * Pick the fields the API needs to talk to Confluence
+ */
+export function getConfluenceCredentials(settings: ConfluenceSettings): ConfluenceCredentials {
+  return {
+    confluenceToken: settings.confluenceToken,
+    confluenceEmail: settings.confluenceEmail,
+    deploymentType: settings.deploymentType,
+    contextPath: settings.contextPath,
+    authScheme: settings.authScheme,
+  };
+}
+
 /**
  * Clear all saved settings
  */
@@ -48,6 +99,94 @@ export function clearSettings(): void {
   }
 }
 
+export type StorageMode = 'local' | 'server';
+
+/**
+ * Where documents and enhancement history are kept
+ * - local: IndexedDB in this browser
+ * - server: the shared document store API (api/documents), see .env.example
+ */
+export interface StorageSettings {
+  mode: StorageMode;
+  serverUrl: string; // Base URL of the deployment hosting the API; empty for this site
+  serverToken: string; // DOCUMENT_STORE_TOKEN of that deployment, if it sets one
+}
+
+const STORAGE_SETTINGS_KEY = 'doc-enhancer:storage-settings';
+
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  mode: 'local',
+  serverUrl: '',
+  serverToken: '',
+};
+
+/**
+ * Get the storage settings from localStorage (local mode if none are saved)
+ * Kept separate from the Confluence settings so clearing those doesn't move
+ * the user to a different document store.
+ */
+export function getStorageSettings(): StorageSettings {
+  try {
+    const data = localStorage.getItem(STORAGE_SETTINGS_KEY);
+    return data ? { ...DEFAULT_STORAGE_SETTINGS, ...JSON.parse(data) } : DEFAULT_STORAGE_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load storage settings:', error);
+    return DEFAULT_STORAGE_SETTINGS;
+  }
+}
+
+/**
+ * Save the storage settings to localStorage
+ */
+export function saveStorageSettings(settings: StorageSettings): void {
+  try {
+    localStorage.setItem(STORAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save storage settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Editor behaviour preferences
+ */
+export interface EditorPreferences {
+  recordRejectedEnhancements: boolean; // Also keep rejected suggestions in the enhancement history
+}
+
+const EDITOR_PREFERENCES_KEY = 'doc-enhancer:editor-preferences';
+
+const DEFAULT_EDITOR_PREFERENCES: EditorPreferences = {
+  recordRejectedEnhancements: false,
+};
+
+/**
+ * Get the editor preferences from localStorage (defaults if none are saved)
+ */
+export function getEditorPreferences(): EditorPreferences {
+  try {
+    const data = localStorage.getItem(EDITOR_PREFERENCES_KEY);
+    return data
+      ? { ...DEFAULT_EDITOR_PREFERENCES, ...JSON.parse(data) }
+      : DEFAULT_EDITOR_PREFERENCES;
+  } catch (error) {
+    console.error('Failed to load editor preferences:', error);
+    return DEFAULT_EDITOR_PREFERENCES;
+  }
+}
+
+/**
+ * Save the editor preferences to localStorage
+ */
+export function saveEditorPreferences(preferences: EditorPreferences): void {
+  try {
+    localStorage.setItem(EDITOR_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save editor preferences:', error);
+    throw error;
+  }
+}
+
 /**
  * Validate if a URL is a valid Confluence URL
  */
@@ -88,6 +227,6 @@ export function hasSettings(): boolean {
   const settings = getSettings();
   return settings !== null &&
          settings.confluenceToken.length > 0 &&
-         settings.confluenceEmail.length > 0 &&
+         (settings.authScheme === 'bearer' || settings.confluenceEmail.length > 0) &&
          settings.confluenceBaseUrl.length > 0;
 }
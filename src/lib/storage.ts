@@ -1,8 +1,21 @@
 /**
- * localStorage wrapper for managing documents and enhancement history
- * Provides CRUD operations with TypeScript types
+ * IndexedDB storage for documents and enhancement history
+ * Provides async CRUD operations with TypeScript types
+ *
+ * Embedded images are stored as separate blobs keyed by content hash (see
+ * content-images.ts); document records only hold references, which are
+ * turned back into data URIs when documents are read. Data saved by the
+ * earlier localStorage implementation is migrated on first use.
+ *
+ * In server storage mode (Settings) the same API is served by ServerStorage
+ * instead; `storage` picks the backend from the current storage settings.
  */
 
+import { blobToDataUri, collectImageHashes, extractImages, restoreImages } from './content-images';
+import { openDatabase, promisifyRequest, transactionDone } from './indexed-db';
+import { ServerStorage } from './server-storage';
+import { getStorageSettings } from './settings';
+
 export interface DocumentImage {
   data: string; // Base64 data URI
   alt: string;
@@ -27,111 +40,241 @@ export interface Document {
   id: string;
   name: string;
   confluenceUrl: string;
+  confluenceVersion?: number; // Page version the content is based on (for publishing back)
+  confluenceLastModified?: string; // When that page version was saved in Confluence
   content: any; // Tiptap JSON format - stores rich content with embedded images
+  confluenceBaseContent?: Document['content']; // Content as last synced with Confluence (merge base)
   metadata?: DocumentMetadata; // AI-generated metadata for context-aware enhancements
   createdAt: string;
   updatedAt: string;
 }
 
+export type EnhancementSource = 'auto' | 'custom' | 'batch';
+
 export interface EnhancementRecord {
   id: string;
   documentId: string;
-  originalContent: any; // Tiptap JSON
-  enhancedContent: any; // Tiptap JSON
-  instructions: string;
+  originalContent: any; // Tiptap JSON of the enhanced block(s) before the change
+  enhancedContent: any; // Tiptap JSON of the same block(s) as the model proposed them
+  instructions: string; // Empty for a general enhancement
+  status?: 'accepted' | 'rejected'; // Unset on records saved before statuses were tracked
+  source?: EnhancementSource;
+  model?: string;
+  metadata?: DocumentMetadata; // Document metadata the model was given
   createdAt: string;
 }
 
-class LocalStorage {
-  private getKey(type: string): string {
-    return `doc-enhancer:${type}`;
+/**
+ * What caused a version snapshot
+ */
+export type VersionReason = 'import' | 'save' | 'enhancement' | 'refresh' | 'restore';
+
+/**
+ * Snapshot of a document's content, taken whenever the content is saved
+ */
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  content: Document['content']; // Tiptap JSON
+  reason: VersionReason;
+  author?: string; // Confluence email or username of whoever saved it, when configured
+  note?: string; // e.g. which version was restored
+  tag?: string; // Label marking an important version, e.g. "Reviewed by legal"
+  createdAt: string;
+}
+
+export interface StorageUsage {
+  used: number; // Bytes
+  available: number | null; // Bytes; null when the backend has no quota (server mode)
+  percentage: number | null;
+}
+
+/**
+ * Operations shared by the local (IndexedDB) and server storage backends
+ */
+export interface StorageBackend {
+  getDocuments(): Promise<Document[]>;
+  getDocument(id: string): Promise<Document | null>;
+  saveDocuments(docs: Document[]): Promise<void>;
+  addDocument(doc: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Promise<Document>;
+  updateDocument(id: string, updates: Partial<Document>): Promise<Document | null>;
+  deleteDocument(id: string): Promise<boolean>;
+  getHistory(documentId?: string): Promise<EnhancementRecord[]>;
+  addHistory(record: Omit<EnhancementRecord, 'id' | 'createdAt'>): Promise<EnhancementRecord>;
+  getLatestEnhancement(documentId: string): Promise<EnhancementRecord | null>;
+  deleteHistory(id: string): Promise<boolean>;
+  getVersions(documentId: string): Promise<DocumentVersion[]>;
+  addVersion(version: Omit<DocumentVersion, 'id' | 'createdAt'>): Promise<DocumentVersion>;
+  updateVersion(
+    id: string,
+    updates: Partial<Pick<DocumentVersion, 'tag' | 'note'>>
+  ): Promise<DocumentVersion | null>;
+  clearAll(): Promise<void>;
+  exportData(): Promise<string>;
+  importData(jsonString: string): Promise<{
+    success: boolean;
+    documentsImported: number;
+    historyImported: number;
+    error?: string;
+  }>;
+  getStorageSize(): Promise<StorageUsage>;
+}
+
+const DB_NAME = 'doc-enhancer';
+const DB_VERSION = 2;
+
+// Keys used by the localStorage implementation, migrated on first use
+const LEGACY_DOCUMENTS_KEY = 'doc-enhancer:documents';
+const LEGACY_HISTORY_KEY = 'doc-enhancer:history';
+
+interface StoredImage {
+  hash: string;
+  blob: Blob;
+}
+
+type RecordStoreName = 'documents' | 'history' | 'versions';
+
+class IndexedDbStorage implements StorageBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private imageCache = new Map<string, string>(); // Image hash → data URI
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore('documents', { keyPath: 'id' });
+          const history = db.createObjectStore('history', { keyPath: 'id' });
+          history.createIndex('documentId', 'documentId');
+          db.createObjectStore('images', { keyPath: 'hash' });
+        }
+        if (oldVersion < 2) {
+          const versions = db.createObjectStore('versions', { keyPath: 'id' });
+          versions.createIndex('documentId', 'documentId');
+        }
+      }).then(async (db) => {
+        await this.migrateFromLocalStorage(db);
+        return db;
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
   }
 
   // ========== Documents ==========
 
-  getDocuments(): Document[] {
-    const data = localStorage.getItem(this.getKey('documents'));
-    return data ? JSON.parse(data) : [];
+  async getDocuments(): Promise<Document[]> {
+    const db = await this.getDb();
+    const records: Document[] = await promisifyRequest(
+      db.transaction('documents').objectStore('documents').getAll()
+    );
+    const documents = await Promise.all(records.map((doc) => this.restoreDocument(doc)));
+
+    // Keep the order documents were added in
+    return documents.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  getDocument(id: string): Document | null {
-    const docs = this.getDocuments();
-    return docs.find((d) => d.id === id) || null;
+  async getDocument(id: string): Promise<Document | null> {
+    const record = await this.getRecord<Document>('documents', id);
+    return record ? this.restoreDocument(record) : null;
   }
 
-  saveDocuments(docs: Document[]): void {
-    localStorage.setItem(this.getKey('documents'), JSON.stringify(docs));
+  /**
+   * Replace all documents
+   */
+  async saveDocuments(docs: Document[]): Promise<void> {
+    await this.saveRecords({ documents: docs }, { clear: ['documents'] });
+    await this.collectGarbage();
   }
 
-  addDocument(doc: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Document {
-    const documents = this.getDocuments();
+  async addDocument(doc: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Promise<Document> {
     const newDoc: Document = {
       ...doc,
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
-    documents.push(newDoc);
-    this.saveDocuments(documents);
+    await this.saveRecords({ documents: [newDoc] });
     return newDoc;
   }
 
-  updateDocument(id: string, updates: Partial<Document>): Document | null {
-    const documents = this.getDocuments();
-    const index = documents.findIndex((d) => d.id === id);
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | null> {
+    const existing = await this.getRecord<Document>('documents', id);
 
-    if (index === -1) {
+    if (!existing) {
       return null;
     }
 
-    documents[index] = {
-      ...documents[index],
+    const updated: Document = {
+      ...existing,
       ...updates,
       updatedAt: new Date().toISOString(),
     };
-    this.saveDocuments(documents);
-    return documents[index];
+    const { documents } = await this.saveRecords({ documents: [updated] });
+
+    // Images removed from the document may not be referenced anywhere else any more
+    const remaining = getDocumentImageHashes(documents[0]);
+    if ([...getDocumentImageHashes(existing)].some((hash) => !remaining.has(hash))) {
+      await this.collectGarbage();
+    }
+    return this.restoreDocument(updated);
   }
 
-  deleteDocument(id: string): boolean {
-    const documents = this.getDocuments();
-    const filteredDocs = documents.filter((d) => d.id !== id);
+  async deleteDocument(id: string): Promise<boolean> {
+    const db = await this.getDb();
+    const transaction = db.transaction(['documents', 'history', 'versions'], 'readwrite');
+    const documents = transaction.objectStore('documents');
 
-    if (filteredDocs.length === documents.length) {
+    const existing = await promisifyRequest(documents.getKey(id));
+    if (existing === undefined) {
       return false; // Document not found
     }
 
-    this.saveDocuments(filteredDocs);
+    documents.delete(id);
 
-    // Also delete related history
-    const history = this.getHistory().filter((h) => h.documentId !== id);
-    localStorage.setItem(this.getKey('history'), JSON.stringify(history));
+    // Also delete related history and versions
+    for (const storeName of ['history', 'versions'] as const) {
+      const store = transaction.objectStore(storeName);
+      const keys = await promisifyRequest(store.index('documentId').getAllKeys(id));
+      for (const key of keys) {
+        store.delete(key);
+      }
+    }
 
+    await transactionDone(transaction);
+    await this.collectGarbage();
     return true;
   }
 
   // ========== Enhancement History ==========
 
-  getHistory(documentId?: string): EnhancementRecord[] {
-    const data = localStorage.getItem(this.getKey('history'));
-    const history: EnhancementRecord[] = data ? JSON.parse(data) : [];
-    return documentId ? history.filter((h) => h.documentId === documentId) : history;
+  async getHistory(documentId?: string): Promise<EnhancementRecord[]> {
+    const db = await this.getDb();
+    const store = db.transaction('history').objectStore('history');
+    const records: EnhancementRecord[] = await promisifyRequest(
+      documentId ? store.index('documentId').getAll(documentId) : store.getAll()
+    );
+    const history = await Promise.all(records.map((record) => this.restoreHistory(record)));
+    return history.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  addHistory(record: Omit<EnhancementRecord, 'id' | 'createdAt'>): EnhancementRecord {
-    const history = this.getHistory();
+  async addHistory(
+    record: Omit<EnhancementRecord, 'id' | 'createdAt'>
+  ): Promise<EnhancementRecord> {
     const newRecord: EnhancementRecord = {
       ...record,
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
     };
-    history.push(newRecord);
-    localStorage.setItem(this.getKey('history'), JSON.stringify(history));
+    await this.saveRecords({ history: [newRecord] });
     return newRecord;
   }
 
-  getLatestEnhancement(documentId: string): EnhancementRecord | null {
-    const history = this.getHistory(documentId);
+  async getLatestEnhancement(documentId: string): Promise<EnhancementRecord | null> {
+    const history = await this.getHistory(documentId);
     if (history.length === 0) return null;
 
     // Sort by createdAt descending and return the first
@@ -140,30 +283,80 @@ class LocalStorage {
     )[0];
   }
 
-  deleteHistory(id: string): boolean {
-    const history = this.getHistory();
-    const filteredHistory = history.filter((h) => h.id !== id);
+  async deleteHistory(id: string): Promise<boolean> {
+    const db = await this.getDb();
+    const transaction = db.transaction('history', 'readwrite');
+    const store = transaction.objectStore('history');
 
-    if (filteredHistory.length === history.length) {
+    const existing = await promisifyRequest(store.getKey(id));
+    if (existing === undefined) {
       return false; // Record not found
     }
 
-    localStorage.setItem(this.getKey('history'), JSON.stringify(filteredHistory));
+    store.delete(id);
+    await transactionDone(transaction);
+    await this.collectGarbage();
     return true;
   }
 
+  // ========== Versions ==========
+
+  async getVersions(documentId: string): Promise<DocumentVersion[]> {
+    const db = await this.getDb();
+    const records: DocumentVersion[] = await promisifyRequest(
+      db.transaction('versions').objectStore('versions').index('documentId').getAll(documentId)
+    );
+    const versions = await Promise.all(records.map((version) => this.restoreVersion(version)));
+    return versions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addVersion(version: Omit<DocumentVersion, 'id' | 'createdAt'>): Promise<DocumentVersion> {
+    const newVersion: DocumentVersion = {
+      ...version,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    await this.saveRecords({ versions: [newVersion] });
+    return newVersion;
+  }
+
+  async updateVersion(
+    id: string,
+    updates: Partial<Pick<DocumentVersion, 'tag' | 'note'>>
+  ): Promise<DocumentVersion | null> {
+    const existing = await this.getRecord<DocumentVersion>('versions', id);
+
+    if (!existing) {
+      return null;
+    }
+
+    const updated: DocumentVersion = { ...existing, ...updates };
+    await this.saveRecords({ versions: [updated] });
+    return this.restoreVersion(updated);
+  }
+
   // ========== Utility Methods ==========
 
-  clearAll(): void {
-    localStorage.removeItem(this.getKey('documents'));
-    localStorage.removeItem(this.getKey('history'));
+  async clearAll(): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(['documents', 'history', 'versions', 'images'], 'readwrite');
+    transaction.objectStore('documents').clear();
+    transaction.objectStore('history').clear();
+    transaction.objectStore('versions').clear();
+    transaction.objectStore('images').clear();
+    await transactionDone(transaction);
+    this.imageCache.clear();
   }
 
-  exportData(): string {
+  async exportData(): Promise<string> {
+    // Images are exported inline as data URIs so the file is self-contained
+    const documents = await this.getDocuments();
+    const versions = await Promise.all(documents.map((doc) => this.getVersions(doc.id)));
     return JSON.stringify(
       {
-        documents: this.getDocuments(),
-        history: this.getHistory(),
+        documents,
+        history: await this.getHistory(),
+        versions: versions.flat(),
         exportedAt: new Date().toISOString(),
       },
       null,
@@ -171,12 +364,12 @@ class LocalStorage {
     );
   }
 
-  importData(jsonString: string): {
+  async importData(jsonString: string): Promise<{
     success: boolean;
     documentsImported: number;
     historyImported: number;
     error?: string;
-  } {
+  }> {
     try {
       const data = JSON.parse(jsonString);
 
@@ -189,18 +382,21 @@ class LocalStorage {
         };
       }
 
-      if (data.documents) {
-        this.saveDocuments(data.documents);
-      }
+      const history: EnhancementRecord[] = Array.isArray(data.history) ? data.history : [];
+      const versions: DocumentVersion[] = Array.isArray(data.versions) ? data.versions : [];
 
-      if (data.history && Array.isArray(data.history)) {
-        localStorage.setItem(this.getKey('history'), JSON.stringify(data.history));
-      }
+      // Cleared in the same transaction as the new records are written, so a failed import keeps the old data
+      const clear: RecordStoreName[] = ['documents'];
+      if (history.length > 0) clear.push('history');
+      if (versions.length > 0) clear.push('versions');
+
+      await this.saveRecords({ documents: data.documents, history, versions }, { clear });
+      await this.collectGarbage();
 
       return {
         success: true,
-        documentsImported: data.documents?.length || 0,
-        historyImported: data.history?.length || 0,
+        documentsImported: data.documents.length,
+        historyImported: history.length,
       };
     } catch (error) {
       return {
@@ -212,29 +408,246 @@ class LocalStorage {
     }
   }
 
-  getStorageSize(): { used: number; available: number; percentage: number } {
-    let total = 0;
-
-    // Calculate total localStorage usage
-    for (const key in localStorage) {
-      if (localStorage.hasOwnProperty(key)) {
-        total += localStorage[key].length + key.length;
-      }
+  /**
+   * Storage used by this origin and the quota the browser grants it
+   */
+  async getStorageSize(): Promise<StorageUsage> {
+    if (!navigator.storage?.estimate) {
+      return { used: 0, available: 0, percentage: 0 };
     }
 
-    // Most browsers have a 5-10MB limit
-    const limit = 10 * 1024 * 1024; // 10MB
-    const used = total * 2; // UTF-16 encoding uses 2 bytes per character
-    const available = limit - used;
-    const percentage = (used / limit) * 100;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const percentage = quota > 0 ? (usage / quota) * 100 : 0;
 
     return {
-      used,
-      available,
+      used: usage,
+      available: Math.max(quota - usage, 0),
       percentage: Math.round(percentage * 100) / 100,
     };
   }
+
+  // ========== Internals ==========
+
+  private async getRecord<T>(storeName: RecordStoreName, id: string): Promise<T | null> {
+    const db = await this.getDb();
+    const record = await promisifyRequest(db.transaction(storeName).objectStore(storeName).get(id));
+    return record ?? null;
+  }
+
+  /**
+   * Write documents and history records, moving their embedded images into the image store
+   * Images are extracted before the transaction opens: a transaction commits as
+   * soon as it is left idle, so it can't wait on hashing. Stores listed in
+   * `clear` are emptied in the same transaction, so a failure leaves them as they were.
+   * Returns the records as stored, with image references instead of data URIs.
+   */
+  private async saveRecords(
+    records: {
+      documents?: Document[];
+      history?: EnhancementRecord[];
+      versions?: DocumentVersion[];
+    },
+    options: { clear?: RecordStoreName[]; db?: IDBDatabase } = {}
+  ): Promise<{
+    documents: Document[];
+    history: EnhancementRecord[];
+    versions: DocumentVersion[];
+  }> {
+    const images = new Map<string, Blob>();
+    const extract = async <T>(content: T): Promise<T> => {
+      if (content === undefined) return content;
+      const result = await extractImages(content);
+      for (const [hash, blob] of result.images) images.set(hash, blob);
+      return result.content;
+    };
+
+    const documents = await Promise.all(
+      (records.documents ?? []).map(async (doc) => ({
+        ...doc,
+        content: await extract(doc.content),
+        confluenceBaseContent: await extract(doc.confluenceBaseContent),
+      }))
+    );
+    const history = await Promise.all(
+      (records.history ?? []).map(async (record) => ({
+        ...record,
+        originalContent: await extract(record.originalContent),
+        enhancedContent: await extract(record.enhancedContent),
+      }))
+    );
+    const versions = await Promise.all(
+      (records.versions ?? []).map(async (version) => ({
+        ...version,
+        content: await extract(version.content),
+      }))
+    );
+
+    const database = options.db ?? (await this.getDb());
+    const transaction = database.transaction(
+      ['documents', 'history', 'versions', 'images'],
+      'readwrite'
+    );
+    for (const storeName of options.clear ?? []) {
+      transaction.objectStore(storeName).clear();
+    }
+    for (const [hash, blob] of images) {
+      const image: StoredImage = { hash, blob };
+      transaction.objectStore('images').put(image);
+    }
+    for (const doc of documents) {
+      transaction.objectStore('documents').put(doc);
+    }
+    for (const record of history) {
+      transaction.objectStore('history').put(record);
+    }
+    for (const version of versions) {
+      transaction.objectStore('versions').put(version);
+    }
+    await transactionDone(transaction);
+    return { documents, history, versions };
+  }
+
+  private async restoreDocument(doc: Document): Promise<Document> {
+    const load = (hash: string) => this.loadImage(hash);
+    return {
+      ...doc,
+      content: await restoreImages(doc.content, load),
+      confluenceBaseContent: await restoreImages(doc.confluenceBaseContent, load),
+    };
+  }
+
+  private async restoreHistory(record: EnhancementRecord): Promise<EnhancementRecord> {
+    const load = (hash: string) => this.loadImage(hash);
+    return {
+      ...record,
+      originalContent: await restoreImages(record.originalContent, load),
+      enhancedContent: await restoreImages(record.enhancedContent, load),
+    };
+  }
+
+  private async restoreVersion(version: DocumentVersion): Promise<DocumentVersion> {
+    return {
+      ...version,
+      content: await restoreImages(version.content, (hash) => this.loadImage(hash)),
+    };
+  }
+
+  private async loadImage(hash: string): Promise<string | null> {
+    const cached = this.imageCache.get(hash);
+    if (cached) return cached;
+
+    const db = await this.getDb();
+    const image: StoredImage | undefined = await promisifyRequest(
+      db.transaction('images').objectStore('images').get(hash)
+    );
+    if (!image) return null;
+
+    const dataUri = await blobToDataUri(image.blob);
+    this.imageCache.set(hash, dataUri);
+    return dataUri;
+  }
+
+  /**
+   * Delete images no document or history record references any more
+   */
+  private async collectGarbage(): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(['documents', 'history', 'versions', 'images'], 'readwrite');
+
+    const [documents, history, versions, imageKeys] = await Promise.all([
+      promisifyRequest<Document[]>(transaction.objectStore('documents').getAll()),
+      promisifyRequest<EnhancementRecord[]>(transaction.objectStore('history').getAll()),
+      promisifyRequest<DocumentVersion[]>(transaction.objectStore('versions').getAll()),
+      promisifyRequest(transaction.objectStore('images').getAllKeys()),
+    ]);
+
+    const referenced = new Set<string>();
+    for (const doc of documents) {
+      collectImageHashes(doc.content, referenced);
+      collectImageHashes(doc.confluenceBaseContent, referenced);
+    }
+    for (const record of history) {
+      collectImageHashes(record.originalContent, referenced);
+      collectImageHashes(record.enhancedContent, referenced);
+    }
+    for (const version of versions) {
+      collectImageHashes(version.content, referenced);
+    }
+
+    for (const key of imageKeys) {
+      if (!referenced.has(String(key))) {
+        transaction.objectStore('images').delete(key);
+        this.imageCache.delete(String(key));
+      }
+    }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Move data saved by the localStorage implementation into IndexedDB, once
+   * The old keys are only removed after the data has been written.
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const documentsJson = localStorage.getItem(LEGACY_DOCUMENTS_KEY);
+    const historyJson = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (documentsJson === null && historyJson === null) return;
+
+    try {
+      const documents: Document[] = documentsJson ? JSON.parse(documentsJson) : [];
+      const history: EnhancementRecord[] = historyJson ? JSON.parse(historyJson) : [];
+
+      await this.saveRecords({ documents, history }, { db });
+
+      localStorage.removeItem(LEGACY_DOCUMENTS_KEY);
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+      console.log(
+        `Migrated ${documents.length} documents and ${history.length} history records to IndexedDB`
+      );
+    } catch (error) {
+      // Leave the old data in place so nothing is lost; migration is retried next time
+      console.error('Failed to migrate data from localStorage:', error);
+    }
+  }
+}
+
+/**
+ * Hashes of the stored images a document record references
+ */
+function getDocumentImageHashes(doc: Document): Set<string> {
+  return collectImageHashes(doc.confluenceBaseContent, collectImageHashes(doc.content));
 }
 
-// Export singleton instance
-export const storage = new LocalStorage();
+const localStorageBackend = new IndexedDbStorage();
+
+/**
+ * The backend for the current storage settings
+ * Read on every call so switching modes in Settings takes effect immediately.
+ */
+function currentBackend(): StorageBackend {
+  const settings = getStorageSettings();
+  return settings.mode === 'server' ? new ServerStorage(settings) : localStorageBackend;
+}
+
+/**
+ * Storage for the rest of the app, delegating to the selected backend
+ */
+export const storage: StorageBackend = {
+  getDocuments: () => currentBackend().getDocuments(),
+  getDocument: (id) => currentBackend().getDocument(id),
+  saveDocuments: (docs) => currentBackend().saveDocuments(docs),
+  addDocument: (doc) => currentBackend().addDocument(doc),
+  updateDocument: (id, updates) => currentBackend().updateDocument(id, updates),
+  deleteDocument: (id) => currentBackend().deleteDocument(id),
+  getHistory: (documentId) => currentBackend().getHistory(documentId),
+  addHistory: (record) => currentBackend().addHistory(record),
+  getLatestEnhancement: (documentId) => currentBackend().getLatestEnhancement(documentId),
+  deleteHistory: (id) => currentBackend().deleteHistory(id),
+  getVersions: (documentId) => currentBackend().getVersions(documentId),
+  addVersion: (version) => currentBackend().addVersion(version),
+  updateVersion: (id, updates) => currentBackend().updateVersion(id, updates),
+  clearAll: () => currentBackend().clearAll(),
+  exportData: () => currentBackend().exportData(),
+  importData: (jsonString) => currentBackend().importData(jsonString),
+  getStorageSize: () => currentBackend().getStorageSize(),
+};
@@ -0,0 +1,635 @@
+/**
+ * Track-changes suggestions for the Tiptap editor
+ * AI edits land as pending suggestions instead of replacing text directly:
+ * removed text keeps a suggestionDeletion mark (<del>) and new text gets a
+ * suggestionInsertion mark (<ins>) until the reviewer accepts or rejects it.
+ * Both marks are regular schema marks, so pending suggestions are part of the
+ * Tiptap JSON and survive saving and reloading the document.
+ *
+ * Leaf blocks such as images and horizontal rules have no inline content to
+ * mark, so they carry the suggestion in a `suggestion` attribute instead.
+ * Resolving a suggestion removes any block whose content was all discarded,
+ * so replaced lists and tables don't leave empty shells behind.
+ */
+
+import {
+  Fragment,
+  type NodeType,
+  DOMParser as ProseMirrorDOMParser,
+  type Mark as ProseMirrorMark,
+  type Node as ProseMirrorNode,
+} from '@tiptap/pm/model';
+import type { EditorState, Transaction } from '@tiptap/pm/state';
+import {
+  Extension,
+  elementFromString,
+  getExtensionField,
+  type JSONContent,
+  Mark,
+  mergeAttributes,
+} from '@tiptap/react';
+
+export const SUGGESTION_INSERTION = 'suggestionInsertion';
+export const SUGGESTION_DELETION = 'suggestionDeletion';
+
+/** Inline diffs larger than this (old tokens × new tokens) fall back to a block replacement */
+const MAX_DIFF_CELLS = 250_000;
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    suggestions: {
+      /**
+       * Propose replacing the whole nodes between from and to with HTML
+       * Single text blocks get a word-level diff, anything else is shown as
+       * the old blocks deleted followed by the new blocks inserted.
+       * Fails when the HTML isn't valid content there (see parseReplacement)
+       */
+      suggestReplacement: (options: {
+        from: number;
+        to: number;
+        html: string;
+        suggestionId?: string;
+      }) => ReturnType;
+      acceptSuggestion: (suggestionId: string) => ReturnType;
+      rejectSuggestion: (suggestionId: string) => ReturnType;
+      acceptAllSuggestions: () => ReturnType;
+      rejectAllSuggestions: () => ReturnType;
+    };
+  }
+}
+
+interface SuggestionMarkOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+/**
+ * Suggestion attribute of a leaf block, mirroring the attributes of the suggestion marks
+ */
+interface NodeSuggestion {
+  type: typeof SUGGESTION_INSERTION | typeof SUGGESTION_DELETION;
+  suggestionId: string;
+  createdAt: string | null;
+}
+
+/**
+ * Attributes shared by both suggestion marks, stored as data-* attributes in HTML
+ */
+function suggestionAttributes() {
+  return {
+    suggestionId: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-suggestion-id'),
+      renderHTML: (attributes: Record<string, unknown>) => ({
+        'data-suggestion-id': attributes.suggestionId,
+      }),
+    },
+    createdAt: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-created-at'),
+      renderHTML: (attributes: Record<string, unknown>) =>
+        attributes.createdAt ? { 'data-created-at': attributes.createdAt } : {},
+    },
+  };
+}
+
+export const SuggestionInsertion = Mark.create<SuggestionMarkOptions>({
+  name: SUGGESTION_INSERTION,
+  inclusive: false,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'suggestion-insertion',
+      },
+    };
+  },
+
+  addAttributes() {
+    return suggestionAttributes();
+  },
+
+  parseHTML() {
+    return [{ tag: 'ins[data-suggestion-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ins', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), 0];
+  },
+});
+
+export const SuggestionDeletion = Mark.create<SuggestionMarkOptions>({
+  name: SUGGESTION_DELETION,
+  inclusive: false,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'suggestion-deletion',
+      },
+    };
+  },
+
+  addAttributes() {
+    return suggestionAttributes();
+  },
+
+  parseHTML() {
+    // Higher priority than Strike, which also parses <del>
+    return [{ tag: 'del[data-suggestion-id]', priority: 100 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['del', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), 0];
+  },
+});
+
+/**
+ * Suggestion marks plus the commands to create and resolve suggestions
+ */
+export const Suggestions = Extension.create({
+  name: 'suggestions',
+
+  addExtensions() {
+    return [SuggestionInsertion, SuggestionDeletion];
+  },
+
+  addGlobalAttributes() {
+    // Nodes without content of their own; inline ones are marked instead and keep the default
+    const leafTypes = this.extensions
+      .filter(
+        (extension) =>
+          extension.type === 'node' &&
+          extension.name !== 'text' &&
+          !getExtensionField(extension, 'content', {
+            name: extension.name,
+            options: extension.options,
+            storage: extension.storage,
+          })
+      )
+      .map((extension) => extension.name);
+
+    return [
+      {
+        types: leafTypes,
+        attributes: {
+          suggestion: {
+            default: null,
+            keepOnSplit: false,
+            parseHTML: (element: HTMLElement): NodeSuggestion | null => {
+              const kind = element.getAttribute('data-suggestion');
+              const suggestionId = element.getAttribute('data-suggestion-id');
+              if (!suggestionId || (kind !== 'insertion' && kind !== 'deletion')) return null;
+              return {
+                type: kind === 'insertion' ? SUGGESTION_INSERTION : SUGGESTION_DELETION,
+                suggestionId,
+                createdAt: element.getAttribute('data-created-at'),
+              };
+            },
+            renderHTML: (attributes: Record<string, unknown>) => {
+              const suggestion = attributes.suggestion as NodeSuggestion | null;
+              if (!suggestion) return {};
+              return {
+                'data-suggestion':
+                  suggestion.type === SUGGESTION_INSERTION ? 'insertion' : 'deletion',
+                'data-suggestion-id': suggestion.suggestionId,
+                ...(suggestion.createdAt ? { 'data-created-at': suggestion.createdAt } : {}),
+              };
+            },
+          },
+        },
+      },
+    ];
+  },
+
+  addCommands() {
+    return {
+      suggestReplacement:
+        ({ from, to, html, suggestionId = crypto.randomUUID() }) =>
+        ({ tr, dispatch }) => {
+          const schema = tr.doc.type.schema;
+          const content = parseReplacement(tr.doc, from, to, html);
+
+          if (!content) {
+            return false;
+          }
+
+          const attrs = { suggestionId, createdAt: new Date().toISOString() };
+          const insertion = schema.marks[SUGGESTION_INSERTION].create(attrs);
+          const deletion = schema.marks[SUGGESTION_DELETION].create(attrs);
+          const original = tr.doc.slice(from, to).content;
+
+          const replacement =
+            diffSingleBlock(original, content, insertion, deletion) ??
+            markFragment(original, deletion).append(markFragment(content, insertion));
+
+          if (dispatch) {
+            tr.replaceWith(from, to, replacement);
+          }
+          return true;
+        },
+
+      acceptSuggestion:
+        (suggestionId) =>
+        ({ tr, dispatch }) =>
+          resolveSuggestions(tr, 'accept', suggestionId, !!dispatch),
+
+      rejectSuggestion:
+        (suggestionId) =>
+        ({ tr, dispatch }) =>
+          resolveSuggestions(tr, 'reject', suggestionId, !!dispatch),
+
+      acceptAllSuggestions:
+        () =>
+        ({ tr, dispatch }) =>
+          resolveSuggestions(tr, 'accept', undefined, !!dispatch),
+
+      rejectAllSuggestions:
+        () =>
+        ({ tr, dispatch }) =>
+          resolveSuggestions(tr, 'reject', undefined, !!dispatch),
+    };
+  },
+});
+
+/**
+ * Ids of all pending suggestions in document order
+ */
+export function getSuggestionIds(doc: ProseMirrorNode): string[] {
+  const ids = new Set<string>();
+
+  doc.descendants((node) => {
+    for (const suggestion of getNodeSuggestions(node)) {
+      ids.add(suggestion.suggestionId);
+    }
+  });
+
+  return [...ids];
+}
+
+/**
+ * Id of the suggestion under the cursor, if any
+ */
+export function getSuggestionAtSelection(state: EditorState): string | null {
+  const { $from } = state.selection;
+  const mark = [...$from.marks(), ...($from.nodeAfter?.marks ?? [])].find(
+    (item) => isSuggestionMark(item) && item.attrs.suggestionId
+  );
+  if (mark) return mark.attrs.suggestionId;
+
+  // A selected image or other leaf block
+  const { nodeAfter } = $from;
+  return nodeAfter && !nodeAfter.isInline
+    ? (getNodeSuggestions(nodeAfter)[0]?.suggestionId ?? null)
+    : null;
+}
+
+/**
+ * Range from the first to the last inline node or leaf block carrying a suggestion
+ */
+export function getSuggestionRange(
+  doc: ProseMirrorNode,
+  suggestionId: string
+): { from: number; to: number } | null {
+  let from = -1;
+  let to = -1;
+  doc.descendants((node, pos) => {
+    if (!node.isInline && !node.isLeaf) return true;
+    if (getNodeSuggestions(node).some((suggestion) => suggestion.suggestionId === suggestionId)) {
+      if (from < 0) from = pos;
+      to = pos + node.nodeSize;
+    }
+    return false;
+  });
+  return from < 0 ? null : { from, to };
+}
+
+/**
+ * The blocks a suggestion touches, as they were before it and as they would be after accepting it
+ * Both are computed on throwaway transactions, so the editor is left unchanged.
+ * Returns null when the suggestion isn't in the document.
+ */
+export function getSuggestionBlocks(
+  state: EditorState,
+  suggestionId: string
+): { original: JSONContent[]; suggested: JSONContent[] } | null {
+  const marked = getSuggestionRange(state.doc, suggestionId);
+  if (!marked) return null;
+
+  const range = state.doc.resolve(marked.from).blockRange(state.doc.resolve(marked.to));
+  if (!range) return null;
+
+  const resolve = (mode: 'accept' | 'reject'): JSONContent[] => {
+    const tr = state.tr;
+    resolveSuggestions(tr, mode, suggestionId, true);
+    const from = tr.mapping.map(range.start, 1);
+    const to = tr.mapping.map(range.end, -1);
+    return tr.doc.slice(from, Math.max(from, to)).content.toJSON() ?? [];
+  };
+
+  return { original: resolve('reject'), suggested: resolve('accept') };
+}
+
+/**
+ * Parse HTML meant to replace the whole nodes between from and to, checked against the schema
+ * When the parsed content can't go there (e.g. a table cell returned for a
+ * paragraph) and a single text block is replaced, its text is put in a block
+ * of the replaced type instead. Returns null when the HTML can't be used.
+ */
+export function parseReplacement(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number,
+  html: string
+): Fragment | null {
+  const schema = doc.type.schema;
+  let content: Fragment;
+  try {
+    content = ProseMirrorDOMParser.fromSchema(schema).parseSlice(elementFromString(html)).content;
+  } catch (error) {
+    console.warn('Failed to parse replacement HTML:', error);
+    return null;
+  }
+  if (content.size === 0) {
+    return null;
+  }
+
+  const $from = doc.resolve(from);
+  const $to = doc.resolve(to);
+  const fits = (fragment: Fragment) => {
+    try {
+      fragment.forEach((node) => {
+        node.check();
+      });
+      return $from.sameParent($to) && $from.parent.canReplace($from.index(), $to.index(), fragment);
+    } catch {
+      return false;
+    }
+  };
+
+  if (fits(content)) {
+    return content;
+  }
+
+  // Fallback: keep the text (and the formatting the block allows) in the original block type
+  const original = doc.slice(from, to).content;
+  const block = original.childCount === 1 ? original.firstChild : null;
+  if (!block?.isTextblock) {
+    return null;
+  }
+
+  const inline: ProseMirrorNode[] = [];
+  content.descendants((node) => {
+    if (node.isInline) {
+      inline.push(node.mark(node.marks.filter((mark) => block.type.allowsMarkType(mark.type))));
+      return false;
+    }
+    if (node.isTextblock && inline.length > 0) {
+      inline.push(schema.text(' '));
+    }
+    return true;
+  });
+  if (inline.length === 0) {
+    return null;
+  }
+
+  try {
+    const fallback = Fragment.from(block.type.create(block.attrs, inline));
+    return fits(fallback) ? fallback : null;
+  } catch {
+    return null;
+  }
+}
+
+function isSuggestionMark(mark: ProseMirrorMark): boolean {
+  return mark.type.name === SUGGESTION_INSERTION || mark.type.name === SUGGESTION_DELETION;
+}
+
+/**
+ * Suggestions on a node: its suggestion marks, or the suggestion attribute of a leaf block
+ */
+function getNodeSuggestions(node: ProseMirrorNode): NodeSuggestion[] {
+  const suggestions: NodeSuggestion[] = node.marks
+    .filter((mark) => isSuggestionMark(mark) && mark.attrs.suggestionId)
+    .map((mark) => ({
+      type: mark.type.name as NodeSuggestion['type'],
+      suggestionId: mark.attrs.suggestionId,
+      createdAt: mark.attrs.createdAt,
+    }));
+  if (node.attrs.suggestion) suggestions.push(node.attrs.suggestion);
+  return suggestions;
+}
+
+/**
+ * Accept (keep insertions, drop deletions) or reject (the opposite) the
+ * suggestion with the given id, or every suggestion when no id is given
+ */
+function resolveSuggestions(
+  tr: Transaction,
+  mode: 'accept' | 'reject',
+  suggestionId: string | undefined,
+  apply: boolean
+): boolean {
+  const keepType = mode === 'accept' ? SUGGESTION_INSERTION : SUGGESTION_DELETION;
+  const discardType = mode === 'accept' ? SUGGESTION_DELETION : SUGGESTION_INSERTION;
+
+  const hasSuggestion = (node: ProseMirrorNode, type: string) =>
+    getNodeSuggestions(node).some(
+      (suggestion) =>
+        suggestion.type === type &&
+        (suggestionId === undefined || suggestion.suggestionId === suggestionId)
+    );
+
+  // Inline nodes and leaf blocks hold the content; containers only hold them
+  const isContent = (node: ProseMirrorNode) => node.isInline || node.isLeaf;
+
+  // Blocks whose content is all discarded (empty text blocks inside don't count either way)
+  const isAllDiscarded = (node: ProseMirrorNode) => {
+    let discarded = false;
+    let kept = false;
+    node.descendants((child) => {
+      if (kept) return false;
+      if (!isContent(child)) return true;
+      if (hasSuggestion(child, discardType)) discarded = true;
+      else kept = true;
+      return false;
+    });
+    return discarded && !kept;
+  };
+
+  const keep: Array<{ from: number; to: number; node: ProseMirrorNode }> = [];
+  const discard: Array<{ from: number; to: number }> = [];
+
+  tr.doc.descendants((node, pos) => {
+    if (!isContent(node)) {
+      // Removed as a whole, so rejected new blocks and accepted replacements of
+      // lists or tables don't leave empty paragraphs, items or cells behind
+      if (isAllDiscarded(node)) {
+        discard.push({ from: pos, to: pos + node.nodeSize });
+        return false;
+      }
+      return true;
+    }
+
+    if (hasSuggestion(node, keepType)) {
+      keep.push({ from: pos, to: pos + node.nodeSize, node });
+    } else if (hasSuggestion(node, discardType)) {
+      discard.push({ from: pos, to: pos + node.nodeSize });
+    }
+    return false;
+  });
+
+  if (keep.length === 0 && discard.length === 0) {
+    return false;
+  }
+
+  if (apply) {
+    const keepMarkType = tr.doc.type.schema.marks[keepType];
+    // Removing marks and attributes doesn't move positions; deleting bottom-up keeps earlier ranges valid
+    for (const range of keep) {
+      if (range.node.isInline) {
+        const mark = range.node.marks.find(
+          (item) =>
+            item.type === keepMarkType &&
+            (suggestionId === undefined || item.attrs.suggestionId === suggestionId)
+        );
+        if (mark) tr.removeMark(range.from, range.to, mark);
+      } else {
+        tr.setNodeAttribute(range.from, 'suggestion', null);
+      }
+    }
+    for (const range of discard.sort((a, b) => b.from - a.from)) {
+      tr.delete(range.from, range.to);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Add a mark to every inline node in a fragment, skipping nodes (such as
+ * code blocks) whose content doesn't allow it. Leaf blocks get the matching
+ * suggestion attribute instead.
+ */
+function markFragment(fragment: Fragment, mark: ProseMirrorMark, parent?: NodeType): Fragment {
+  const nodes: ProseMirrorNode[] = [];
+
+  fragment.forEach((node) => {
+    if (node.isInline) {
+      nodes.push(
+        !parent || parent.allowsMarkType(mark.type) ? node.mark(mark.addToSet(node.marks)) : node
+      );
+    } else if (node.isLeaf) {
+      const suggestion: NodeSuggestion = {
+        type: mark.type.name as NodeSuggestion['type'],
+        suggestionId: mark.attrs.suggestionId,
+        createdAt: mark.attrs.createdAt,
+      };
+      nodes.push(
+        'suggestion' in node.attrs
+          ? node.type.create({ ...node.attrs, suggestion }, null, node.marks)
+          : node
+      );
+    } else {
+      nodes.push(node.copy(markFragment(node.content, mark, node.type)));
+    }
+  });
+
+  return Fragment.fromArray(nodes);
+}
+
+interface InlineToken {
+  key: string; // Text plus formatting, so formatting-only changes show up as edits
+  node: ProseMirrorNode;
+}
+
+/**
+ * Split inline content into words, whitespace runs and inline nodes
+ */
+function tokenizeInline(content: Fragment): InlineToken[] {
+  const tokens: InlineToken[] = [];
+
+  content.forEach((node) => {
+    if (node.isText && node.text) {
+      const markKey = node.marks.map((m) => `${m.type.name}${JSON.stringify(m.attrs)}`).join(',');
+      for (const word of node.text.match(/\s+|[^\s]+/g) ?? []) {
+        tokens.push({ key: `${markKey}|${word}`, node: node.type.schema.text(word, node.marks) });
+      }
+    } else {
+      tokens.push({ key: JSON.stringify(node.toJSON()), node });
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Word-level diff when a single text block is replaced by a block of the same
+ * type and attributes. Returns null when the change isn't a simple text edit.
+ */
+function diffSingleBlock(
+  original: Fragment,
+  content: Fragment,
+  insertion: ProseMirrorMark,
+  deletion: ProseMirrorMark
+): Fragment | null {
+  const oldBlock = original.firstChild;
+  const newBlock = content.firstChild;
+
+  if (
+    original.childCount !== 1 ||
+    content.childCount !== 1 ||
+    !oldBlock ||
+    !newBlock ||
+    !oldBlock.isTextblock ||
+    !oldBlock.hasMarkup(newBlock.type, newBlock.attrs) ||
+    !oldBlock.type.allowsMarkType(insertion.type)
+  ) {
+    return null;
+  }
+
+  const a = tokenizeInline(oldBlock.content);
+  const b = tokenizeInline(newBlock.content);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i].key === b[j].key ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const nodes: ProseMirrorNode[] = [];
+  let deleted: ProseMirrorNode[] = [];
+  let inserted: ProseMirrorNode[] = [];
+
+  // Group each run of changes as deletions followed by insertions
+  const flush = () => {
+    nodes.push(...deleted, ...inserted);
+    deleted = [];
+    inserted = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].key === b[j].key) {
+      flush();
+      nodes.push(a[i].node);
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      deleted.push(a[i].node.mark(deletion.addToSet(a[i].node.marks)));
+      i++;
+    } else {
+      inserted.push(b[j].node.mark(insertion.addToSet(b[j].node.marks)));
+      j++;
+    }
+  }
+  flush();
+
+  return Fragment.from(oldBlock.copy(Fragment.fromArray(nodes)));
+}
@@ -9,8 +9,10 @@ import { Table } from '@tiptap/extension-table';
 import { TableRow } from '@tiptap/extension-table-row';
 import { TableCell } from '@tiptap/extension-table-cell';
 import { TableHeader } from '@tiptap/extension-table-header';
-import { Image } from '@tiptap/extension-image';
 import { Link } from '@tiptap/extension-link';
+import { ConfluenceImage, confluenceMacroNodes } from './confluence-nodes';
+import { AiHistory } from './ai-history';
+import { Suggestions } from './suggestions';
 
 /**
  * Get Tiptap extensions configured for Doc Enhancer
@@ -42,8 +44,8 @@ export function getTiptapExtensions(): Extensions {
     TableCell,
     TableHeader,
 
-    // Image support with base64 embedding
-    Image.configure({
+    // Image support with base64 embedding (remembers Confluence attachment names)
+    ConfluenceImage.configure({
       inline: false,
       allowBase64: true, // Critical for embedded images
       HTMLAttributes: {
@@ -59,6 +61,15 @@ export function getTiptapExtensions(): Extensions {
         rel: 'noopener noreferrer',
       },
     }),
+
+    // Confluence macros (panels, expand, status, Jira, preserved macros)
+    ...confluenceMacroNodes,
+
+    // Track-changes marks for pending AI suggestions (<ins>/<del>)
+    Suggestions,
+
+    // Labelled AI steps, each its own undo event
+    AiHistory,
   ];
 }
 
@@ -2,57 +2,161 @@
  * Helper functions for working with Tiptap editor
  */
 
+import type { Fragment, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { Transaction } from '@tiptap/pm/state';
 import type { Editor } from '@tiptap/react';
 import { tiptapJsonToHtml } from './content-converters';
 
 /**
- * Extract selection context from Tiptap editor
- * Returns the parent node HTML with <target> tags around selection
+ * Serialize a single ProseMirror node to HTML
+ * (without using editor.getHTML which gets full doc)
  */
-export function extractSelectionContext(editor: Editor): {
+export function nodeToHtml(node: ProseMirrorNode): string {
+  return tiptapJsonToHtml({
+    type: 'doc',
+    content: [node.toJSON()],
+  });
+}
+
+export interface SelectionContext {
   selectedText: string;
-  parentNodeHtml: string;
+  parentNodeHtml: string; // HTML of the blocks in blockFrom..blockTo, with <target> tags around the selection
   from: number;
   to: number;
-} | null {
-  const { from, to, empty } = editor.state.selection;
+  blockFrom: number; // Range of the whole blocks containing the selection, which the API response replaces
+  blockTo: number;
+  blocks: Fragment; // Content of that range when the context was taken
+}
+
+// Private-use characters marking the selection while the blocks are serialized
+const TARGET_START = '\uE000';
+const TARGET_END = '\uE001';
+
+/**
+ * Extract selection context from Tiptap editor
+ * Returns the HTML of the blocks containing the selection, with <target>
+ * tags inserted at the exact selection positions (so formatting inside the
+ * selection and repeated text don't matter). Selections across several
+ * paragraphs or list items cover all of them; selections across list items
+ * or table cells cover the whole list or table, so the range can be
+ * replaced with the HTML the API returns.
+ */
+export function extractSelectionContext(editor: Editor): SelectionContext | null {
+  const { state } = editor;
+  const { from, to, empty } = state.selection;
 
   if (empty) {
     return null;
   }
 
-  // Get selected text
-  const selectedText = editor.state.doc.textBetween(from, to);
+  const selectedText = state.doc.textBetween(from, to, '\n');
+  const { blockFrom, blockTo } = getBlockRange(state.doc, from, to);
 
-  // Get the resolved position to find parent node
-  const resolvedFrom = editor.state.selection.$from;
-  const parentNode = resolvedFrom.parent;
+  // Mark the selection with unformatted text nodes, end first so `from` stays valid.
+  // Positions between blocks can't hold text; the tag goes around the whole HTML instead.
+  const tr = state.tr;
+  const canHoldText = (pos: number) => tr.doc.resolve(pos).parent.inlineContent;
+  const endInline = canHoldText(to);
+  const startInline = canHoldText(from);
+  if (endInline) tr.insert(to, state.schema.text(TARGET_END));
+  if (startInline) tr.insert(from, state.schema.text(TARGET_START));
 
-  // Serialize parent node to HTML (without using editor.getHTML which gets full doc)
-  const tempDoc = {
-    type: 'doc',
-    content: [parentNode.toJSON()],
-  };
-  const parentNodeHtml = tiptapJsonToHtml(tempDoc);
-
-  // Inject <target> tags around the selected text in HTML
-  // This is a simplified approach that works for plain text selections
-  // For complex HTML selections, we'd need more sophisticated logic
-  const htmlWithTarget = parentNodeHtml.replace(
-    selectedText,
-    `<target>${selectedText}</target>`
-  );
+  const marked = tr.doc.slice(tr.mapping.map(blockFrom, -1), tr.mapping.map(blockTo, 1)).content;
+  const html = tiptapJsonToHtml({ type: 'doc', content: marked.toJSON() ?? [] })
+    .replace(TARGET_START, '<target>')
+    .replace(TARGET_END, '</target>');
 
   return {
     selectedText,
-    parentNodeHtml: htmlWithTarget,
+    parentNodeHtml: `${startInline ? '' : '<target>'}${html}${endInline ? '' : '</target>'}`,
     from,
     to,
+    blockFrom,
+    blockTo,
+    blocks: state.doc.slice(blockFrom, blockTo).content,
   };
 }
 
 /**
- * Replace content in editor at specific range with HTML
+ * Follows the block range of a selection context through later editor transactions
+ */
+export interface TrackedBlockRange {
+  /** Current range of the blocks, or null once they have been edited or removed */
+  current(): { from: number; to: number } | null;
+  stop(): void;
+}
+
+/**
+ * Keep track of where a selection context's blocks are while an API request runs,
+ * so edits elsewhere in the document don't make the response land in the wrong place
+ */
+export function trackBlockRange(editor: Editor, context: SelectionContext): TrackedBlockRange {
+  let from = context.blockFrom;
+  let to = context.blockTo;
+
+  const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+    from = transaction.mapping.map(from, 1);
+    to = Math.max(from, transaction.mapping.map(to, -1));
+  };
+  editor.on('transaction', handleTransaction);
+
+  return {
+    current: () => {
+      const { doc } = editor.state;
+      return to <= doc.content.size && doc.slice(from, to).content.eq(context.blocks)
+        ? { from, to }
+        : null;
+    },
+    stop: () => {
+      editor.off('transaction', handleTransaction);
+    },
+  };
+}
+
+/**
+ * Range of the sibling blocks spanning from..to
+ * The range is widened to whole nodes while its parent only holds specific
+ * children (list items of a list, rows of a table, cells of a row), since
+ * those can't be replaced with freely generated HTML.
+ */
+function getBlockRange(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number
+): { blockFrom: number; blockTo: number } {
+  const $from = doc.resolve(from);
+  let $to = doc.resolve(to);
+
+  // A selection ending at the very start of a block (e.g. after a triple click) doesn't include it
+  if (to > from && $to.parentOffset === 0 && $to.depth > 0 && $to.parent.isTextblock) {
+    const $before = doc.resolve($to.before());
+    if ($before.pos > from) $to = $before;
+  }
+
+  const range = $from.blockRange($to);
+  if (!range) {
+    return { blockFrom: from, blockTo: to };
+  }
+
+  let depth = range.depth;
+  let blockFrom = range.start;
+  let blockTo = range.end;
+  while (depth > 0 && !canHoldParagraphs($from.node(depth))) {
+    blockFrom = $from.before(depth);
+    blockTo = $from.after(depth);
+    depth--;
+  }
+
+  return { blockFrom, blockTo };
+}
+
+function canHoldParagraphs(node: ProseMirrorNode): boolean {
+  const paragraph = node.type.schema.nodes.paragraph;
+  return !!paragraph && node.type.contentMatch.matchType(paragraph) !== null;
+}
+
+/**
+ * Replace the whole blocks in from..to with HTML, in a single step
  */
 export function replaceContentAt(
   editor: Editor,
@@ -61,12 +165,7 @@ export function replaceContentAt(
   newHtml: string
 ): boolean {
   try {
-    editor
-      .chain()
-      .focus()
-      .deleteRange({ from, to })
-      .insertContentAt(from, newHtml)
-      .run();
+    editor.chain().focus().insertContentAt({ from, to }, newHtml).run();
     return true;
   } catch (error) {
     console.error('Failed to replace content:', error);
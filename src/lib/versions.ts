@@ -0,0 +1,110 @@
+/**
+ * Document version history
+ * Every change to a document's content goes through commitVersion, which
+ * saves the content and records a snapshot with who, why and when, so any
+ * earlier state can be compared against or restored.
+ */
+
+import { blockKey, getTopLevelBlocks } from './content-diff';
+import { getSettings } from './settings';
+import { type Document, type DocumentVersion, storage, type VersionReason } from './storage';
+
+export const VERSION_REASON_LABELS: Record<VersionReason, string> = {
+  import: 'Imported',
+  save: 'Saved',
+  enhancement: 'Enhancement accepted',
+  refresh: 'Updated from Confluence',
+  restore: 'Restored',
+};
+
+/**
+ * Save new content for a document and snapshot it as a version
+ * Documents that predate version history get their previous content recorded
+ * first so it can still be restored. No snapshot is added when the content
+ * matches the latest version.
+ */
+export async function commitVersion(
+  documentId: string,
+  content: Document['content'],
+  reason: VersionReason,
+  options: { note?: string; updates?: Partial<Document> } = {}
+): Promise<Document | null> {
+  const existing = await storage.getDocument(documentId);
+  if (!existing) return null;
+
+  const versions = await storage.getVersions(documentId);
+  if (versions.length === 0 && existing.content) {
+    await storage.addVersion({
+      documentId,
+      content: existing.content,
+      reason: 'save',
+      note: 'Content before version history was recorded',
+    });
+  }
+
+  const updated = await storage.updateDocument(documentId, { ...options.updates, content });
+  if (!updated) return null;
+
+  const latest = versions[versions.length - 1];
+  if (!latest || !isSameContent(latest.content, content)) {
+    await recordVersion(documentId, content, reason, options.note);
+  }
+
+  return updated;
+}
+
+/**
+ * Snapshot content without changing the document, e.g. right after an import
+ */
+export function recordVersion(
+  documentId: string,
+  content: Document['content'],
+  reason: VersionReason,
+  note?: string
+): Promise<DocumentVersion> {
+  return storage.addVersion({ documentId, content, reason, author: getCurrentAuthor(), note });
+}
+
+/**
+ * Make an earlier version the document's current content
+ * The restore is itself recorded as a new version, so it can be undone.
+ */
+export function restoreVersion(version: DocumentVersion): Promise<Document | null> {
+  return commitVersion(version.documentId, version.content, 'restore', {
+    note: `Restored ${version.tag ? `"${version.tag}"` : 'version'} from ${formatVersionDate(version.createdAt)}`,
+  });
+}
+
+/**
+ * Label a version (an empty tag removes the label)
+ */
+export function tagVersion(id: string, tag: string): Promise<DocumentVersion | null> {
+  return storage.updateVersion(id, { tag: tag.trim() });
+}
+
+export function formatVersionDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * The configured Confluence account, which is the closest thing to a user identity here
+ */
+function getCurrentAuthor(): string | undefined {
+  const settings = getSettings();
+  return settings?.confluenceEmail || undefined;
+}
+
+function isSameContent(a: Document['content'], b: Document['content']): boolean {
+  const aBlocks = getTopLevelBlocks(a);
+  const bBlocks = getTopLevelBlocks(b);
+  return (
+    aBlocks.length === bBlocks.length &&
+    aBlocks.every((block, index) => blockKey(block) === blockKey(bBlocks[index]))
+  );
+}
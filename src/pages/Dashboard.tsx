@@ -1,9 +1,11 @@
 import { Button, Center, Container, Grid, Group, Paper, Stack, Text, Title } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
 import { IconFileText, IconPlus } from '@tabler/icons-react';
 import { useCallback, useEffect, useState } from 'react';
 import { AddDocumentModal } from '@/components/dashboard/AddDocumentModal';
 import { DocumentCard } from '@/components/dashboard/DocumentCard';
-import { type Document, storage } from '@/lib/storage';
+import { getStorageSettings } from '@/lib/settings';
+import { type Document, type StorageUsage, storage } from '@/lib/storage';
 
 interface DashboardProps {
   onEnhance: (doc: Document) => void;
@@ -11,11 +13,24 @@ interface DashboardProps {
 
 export function Dashboard({ onEnhance }: DashboardProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [modalOpened, setModalOpened] = useState(false);
 
-  const loadDocuments = useCallback(() => {
-    const docs = storage.getDocuments();
-    setDocuments(docs);
+  const isServerStorage = getStorageSettings().mode === 'server';
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      const docs = await storage.getDocuments();
+      setDocuments(docs);
+      setStorageUsage(await storage.getStorageSize());
+    } catch (error) {
+      console.error('Failed to load documents:', error);
+      notifications.show({
+        title: 'Failed to Load Documents',
+        message: error instanceof Error ? error.message : 'Could not read the document store',
+        color: 'red',
+      });
+    }
   }, []);
 
   useEffect(() => {
@@ -47,11 +62,14 @@ export function Dashboard({ onEnhance }: DashboardProps) {
           <Paper p="sm" withBorder>
             <Group justify="space-between">
               <Text size="sm" c="dimmed">
-                {documents.length} document{documents.length !== 1 ? 's' : ''} stored locally
-              </Text>
-              <Text size="sm" c="dimmed">
-                Storage: {storage.getStorageSize().percentage.toFixed(1)}% used
+                {documents.length} document{documents.length !== 1 ? 's' : ''} stored{' '}
+                {isServerStorage ? 'on the server' : 'locally'}
               </Text>
+              {storageUsage?.percentage != null && (
+                <Text size="sm" c="dimmed">
+                  Storage: {storageUsage.percentage.toFixed(1)}% used
+                </Text>
+              )}
             </Group>
           </Paper>
         )}
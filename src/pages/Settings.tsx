@@ -12,6 +12,8 @@ import {
   List,
   Paper,
   PasswordInput,
+  SegmentedControl,
+  Select,
   Stack,
   Text,
   TextInput,
@@ -19,37 +21,104 @@ import {
 } from '@mantine/core';
 import { useForm } from '@mantine/form';
 import { notifications } from '@mantine/notifications';
-import { IconAlertCircle, IconCheck, IconCloud, IconKey } from '@tabler/icons-react';
+import { IconAlertCircle, IconCheck, IconCloud, IconDatabase, IconKey } from '@tabler/icons-react';
 import { zod4Resolver } from 'mantine-form-zod-resolver';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { z } from 'zod';
-import { clearSettings, getSettings, isValidConfluenceUrl, saveSettings } from '@/lib/settings';
-import { storage } from '@/lib/storage';
+import { ServerStorage } from '@/lib/server-storage';
+import {
+  type AuthScheme,
+  clearSettings,
+  DEPLOYMENT_DEFAULTS,
+  type DeploymentType,
+  getSettings,
+  getStorageSettings,
+  isValidConfluenceUrl,
+  type StorageMode,
+  saveSettings,
+  saveStorageSettings,
+} from '@/lib/settings';
+import { type StorageUsage, storage } from '@/lib/storage';
 
 // Zod schema for settings form validation
-const settingsSchema = z.object({
-  confluenceToken: z.string().min(1, 'Confluence API token is required'),
-  confluenceEmail: z.email('Invalid email format'),
-  confluenceBaseUrl: z
+const settingsSchema = z
+  .object({
+    confluenceToken: z.string().min(1, 'Confluence API token is required'),
+    confluenceEmail: z.string(),
+    confluenceBaseUrl: z
+      .string()
+      .min(1, 'Confluence base URL is required')
+      .refine((url) => isValidConfluenceUrl(url), {
+        message: 'Invalid Confluence URL (should be https://your-domain.atlassian.net)',
+      }),
+    deploymentType: z.enum(['cloud', 'server']),
+    contextPath: z
+      .string()
+      .regex(/^(\/[\w.-]+)*\/?$/, 'Context path must look like /wiki or /confluence'),
+    authScheme: z.enum(['basic', 'bearer']),
+  })
+  .superRefine((values, ctx) => {
+    // Basic auth needs an email (Cloud) or username (Server / DC); bearer tokens don't
+    if (values.authScheme !== 'basic') return;
+
+    if (values.deploymentType === 'cloud' && !z.email().safeParse(values.confluenceEmail).success) {
+      ctx.addIssue({ code: 'custom', path: ['confluenceEmail'], message: 'Invalid email format' });
+    } else if (!values.confluenceEmail.trim()) {
+      ctx.addIssue({ code: 'custom', path: ['confluenceEmail'], message: 'Username is required' });
+    }
+  });
+
+const storageSettingsSchema = z.object({
+  mode: z.enum(['local', 'server']),
+  serverUrl: z
     .string()
-    .min(1, 'Confluence base URL is required')
-    .refine((url) => isValidConfluenceUrl(url), {
-      message: 'Invalid Confluence URL (should be https://your-domain.atlassian.net)',
+    .refine((url) => url === '' || z.url({ protocol: /^https?$/ }).safeParse(url).success, {
+      message: 'Invalid server URL (leave empty to use this site)',
     }),
+  serverToken: z.string(),
 });
 
+const STORAGE_MODE_OPTIONS: Array<{ value: StorageMode; label: string }> = [
+  { value: 'local', label: 'This browser' },
+  { value: 'server', label: 'Shared server' },
+];
+
+const DEPLOYMENT_OPTIONS: Array<{ value: DeploymentType; label: string }> = [
+  { value: 'cloud', label: 'Atlassian Cloud' },
+  { value: 'server', label: 'Server / Data Center' },
+];
+
+const AUTH_SCHEME_OPTIONS: Array<{ value: AuthScheme; label: string }> = [
+  { value: 'basic', label: 'Basic (email or username + token)' },
+  { value: 'bearer', label: 'Bearer (personal access token)' },
+];
+
 export function Settings() {
   const [isSaved, setIsSaved] = useState(false);
+  const [storageInfo, setStorageInfo] = useState<{
+    documents: number;
+    enhancements: number;
+    usage: StorageUsage;
+  } | null>(null);
 
   const form = useForm({
     initialValues: {
       confluenceToken: '',
       confluenceEmail: '',
       confluenceBaseUrl: '',
+      deploymentType: 'cloud' as DeploymentType,
+      ...DEPLOYMENT_DEFAULTS.cloud,
     },
     validate: zod4Resolver(settingsSchema),
   });
 
+  const storageForm = useForm({
+    initialValues: { ...getStorageSettings() },
+    validate: zod4Resolver(storageSettingsSchema),
+  });
+  const [storageMode, setStorageMode] = useState<StorageMode>(() => getStorageSettings().mode);
+  const [isSavingStorage, setIsSavingStorage] = useState(false);
+
   // Load existing settings on mount
   useEffect(() => {
     const settings = getSettings();
@@ -58,18 +127,42 @@ export function Settings() {
         confluenceToken: settings.confluenceToken,
         confluenceEmail: settings.confluenceEmail,
         confluenceBaseUrl: settings.confluenceBaseUrl,
+        deploymentType: settings.deploymentType,
+        contextPath: settings.contextPath,
+        authScheme: settings.authScheme,
       });
       setIsSaved(true);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [form.setValues]);
 
+  const loadStorageInfo = useCallback(async () => {
+    try {
+      const [documents, history, usage] = await Promise.all([
+        storage.getDocuments(),
+        storage.getHistory(),
+        storage.getStorageSize(),
+      ]);
+      setStorageInfo({ documents: documents.length, enhancements: history.length, usage });
+    } catch (error) {
+      console.error('Failed to load storage information:', error);
+      setStorageInfo(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStorageInfo();
+  }, [loadStorageInfo]);
+
   const handleSubmit = (values: typeof form.values) => {
     try {
       saveSettings({
         confluenceToken: values.confluenceToken,
         confluenceEmail: values.confluenceEmail,
         confluenceBaseUrl: values.confluenceBaseUrl,
+        deploymentType: values.deploymentType,
+        contextPath: values.contextPath,
+        authScheme: values.authScheme,
       });
 
       setIsSaved(true);
@@ -89,6 +182,37 @@ export function Settings() {
     }
   };
 
+  // The server is checked before switching so the app never points at a store it can't reach
+  const handleStorageSubmit = async (values: typeof storageForm.values) => {
+    setIsSavingStorage(true);
+    try {
+      if (values.mode === 'server') {
+        await new ServerStorage(values).getStorageSize();
+      }
+      saveStorageSettings(values);
+      setStorageMode(values.mode);
+      await loadStorageInfo();
+
+      notifications.show({
+        title: 'Storage Updated',
+        message:
+          values.mode === 'server'
+            ? 'Documents are now loaded from and saved to the shared server'
+            : 'Documents are now stored in this browser',
+        color: 'green',
+        icon: <IconCheck size={18} />,
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Could Not Connect to Server',
+        message: error instanceof Error ? error.message : 'The document store did not respond',
+        color: 'red',
+      });
+    } finally {
+      setIsSavingStorage(false);
+    }
+  };
+
   const handleClearSettings = () => {
     if (window.confirm('Are you sure you want to clear all settings?')) {
       clearSettings();
@@ -103,14 +227,28 @@ export function Settings() {
     }
   };
 
-  const handleClearAllData = () => {
+  const handleClearAllData = async () => {
+    const scope =
+      storageMode === 'server'
+        ? 'all documents and enhancements on the shared server (for everyone using it)'
+        : 'all documents and enhancements';
     if (
       window.confirm(
-        'Are you sure you want to clear ALL data? This will delete all documents, enhancements, and settings. This cannot be undone.'
+        `Are you sure you want to clear ALL data? This will delete ${scope}, and settings. This cannot be undone.`
       )
     ) {
-      storage.clearAll();
+      try {
+        await storage.clearAll();
+      } catch (error) {
+        notifications.show({
+          title: 'Could Not Clear Data',
+          message: error instanceof Error ? error.message : 'Failed to clear documents',
+          color: 'red',
+        });
+        return;
+      }
       clearSettings();
+      loadStorageInfo();
       form.reset();
       setIsSaved(false);
 
@@ -122,7 +260,14 @@ export function Settings() {
     }
   };
 
-  const storageInfo = storage.getStorageSize();
+  // Switching deployment type resets the connection options to that type's defaults
+  const handleDeploymentTypeChange = (value: string) => {
+    const deploymentType = value as DeploymentType;
+    form.setValues({ deploymentType, ...DEPLOYMENT_DEFAULTS[deploymentType] });
+  };
+
+  const isCloud = form.values.deploymentType === 'cloud';
+  const isBearer = form.values.authScheme === 'bearer';
 
   return (
     <Container size="md" py="xl">
@@ -164,26 +309,70 @@ export function Settings() {
 
             <form onSubmit={form.onSubmit(handleSubmit)}>
               <Stack gap="md">
+                <div>
+                  <Text size="sm" fw={500} mb={4}>
+                    Deployment Type
+                  </Text>
+                  <SegmentedControl
+                    fullWidth
+                    data={DEPLOYMENT_OPTIONS}
+                    value={form.values.deploymentType}
+                    onChange={handleDeploymentTypeChange}
+                  />
+                </div>
+
                 <TextInput
                   label="Confluence Base URL"
-                  placeholder="https://your-domain.atlassian.net"
-                  description="Your Confluence instance URL (without /wiki)"
+                  placeholder={
+                    isCloud ? 'https://your-domain.atlassian.net' : 'https://confluence.example.com'
+                  }
+                  description={`Your Confluence instance URL (without ${isCloud ? '/wiki' : 'the context path'})`}
                   required
                   {...form.getInputProps('confluenceBaseUrl')}
                 />
 
-                <TextInput
-                  label="Email Address"
-                  placeholder="your.email@company.com"
-                  description="Your Confluence account email"
-                  required
-                  {...form.getInputProps('confluenceEmail')}
-                />
+                <Group grow align="flex-start">
+                  <TextInput
+                    label="Context Path"
+                    placeholder={isCloud ? '/wiki' : 'Leave empty if served from the root'}
+                    description="Path Confluence is served from"
+                    {...form.getInputProps('contextPath')}
+                  />
+                  <Select
+                    label="Authentication"
+                    description="How requests are authenticated"
+                    data={AUTH_SCHEME_OPTIONS}
+                    allowDeselect={false}
+                    {...form.getInputProps('authScheme')}
+                  />
+                </Group>
+
+                {!isBearer && (
+                  <TextInput
+                    label={isCloud ? 'Email Address' : 'Username'}
+                    placeholder={isCloud ? 'your.email@company.com' : 'your.username'}
+                    description={`Your Confluence account ${isCloud ? 'email' : 'username'}`}
+                    required
+                    {...form.getInputProps('confluenceEmail')}
+                  />
+                )}
 
                 <PasswordInput
-                  label="API Token"
-                  placeholder="Your Confluence API token"
-                  description="Create one at: id.atlassian.com/manage-profile/security/api-tokens"
+                  label={isBearer ? 'Personal Access Token' : isCloud ? 'API Token' : 'Password'}
+                  placeholder={
+                    isBearer
+                      ? 'Your personal access token'
+                      : isCloud
+                        ? 'Your Confluence API token'
+                        : 'Your Confluence password'
+                  }
+                  description={
+                    isBearer
+                      ? 'Create one in Confluence under Profile → Settings → Personal Access Tokens'
+                      : isCloud
+                        ? 'Create one at: id.atlassian.com/manage-profile/security/api-tokens'
+                        : 'Your Confluence account password'
+                  }
                   required
                   {...form.getInputProps('confluenceToken')}
                 />
@@ -201,30 +390,97 @@ export function Settings() {
           <Stack gap="sm">
             <Group gap="xs">
               <IconAlertCircle size={20} color="var(--mantine-color-blue-6)" />
-              <Text fw={600}>How to get your Confluence API token:</Text>
+              <Text fw={600}>
+                How to get your Confluence {isBearer ? 'personal access token' : 'API token'}:
+              </Text>
             </Group>
-            <List size="sm" spacing="xs">
-              <List.Item>
-                Go to{' '}
-                <Code>
-                  <a
-                    href="https://id.atlassian.com/manage-profile/security/api-tokens"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
-                    id.atlassian.com/manage-profile/security/api-tokens
-                  </a>
-                </Code>
-              </List.Item>
-              <List.Item>Click "Create API token"</List.Item>
-              <List.Item>Give it a name (e.g., "Doc Enhancer")</List.Item>
-              <List.Item>Copy the token and paste it above</List.Item>
-            </List>
+            {isBearer ? (
+              <List size="sm" spacing="xs">
+                <List.Item>In Confluence, open your profile picture → Settings</List.Item>
+                <List.Item>Select "Personal Access Tokens" and click "Create token"</List.Item>
+                <List.Item>Give it a name (e.g., "Doc Enhancer") and an expiry date</List.Item>
+                <List.Item>Copy the token and paste it above</List.Item>
+              </List>
+            ) : (
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  Go to{' '}
+                  <Code>
+                    <a
+                      href="https://id.atlassian.com/manage-profile/security/api-tokens"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      id.atlassian.com/manage-profile/security/api-tokens
+                    </a>
+                  </Code>
+                </List.Item>
+                <List.Item>Click "Create API token"</List.Item>
+                <List.Item>Give it a name (e.g., "Doc Enhancer")</List.Item>
+                <List.Item>Copy the token and paste it above</List.Item>
+              </List>
+            )}
           </Stack>
         </Paper>
 
         <Divider />
 
+        {/* Document Storage */}
+        <Paper p="xl" withBorder radius="md">
+          <Stack gap="lg">
+            <Group gap="sm">
+              <IconDatabase size={24} color="var(--mantine-color-blue-6)" />
+              <div>
+                <Text fw={600} size="lg">
+                  Document Storage
+                </Text>
+                <Text size="sm" c="dimmed">
+                  Keep documents in this browser or share them through a self-hosted server
+                </Text>
+              </div>
+            </Group>
+
+            <form onSubmit={storageForm.onSubmit(handleStorageSubmit)}>
+              <Stack gap="md">
+                <SegmentedControl
+                  fullWidth
+                  data={STORAGE_MODE_OPTIONS}
+                  {...storageForm.getInputProps('mode')}
+                />
+
+                {storageForm.values.mode === 'server' && (
+                  <>
+                    <TextInput
+                      label="Server URL"
+                      placeholder="Leave empty to use this site"
+                      description="Self-hosted deployment that runs the document store API"
+                      {...storageForm.getInputProps('serverUrl')}
+                    />
+                    <PasswordInput
+                      label="Access Token"
+                      placeholder="Leave empty if the server doesn't require one"
+                      description="The server's DOCUMENT_STORE_TOKEN"
+                      {...storageForm.getInputProps('serverToken')}
+                    />
+                  </>
+                )}
+
+                <Text size="xs" c="dimmed">
+                  Switching storage doesn't copy existing documents to the new location.
+                </Text>
+
+                <Button
+                  type="submit"
+                  leftSection={<IconDatabase size={18} />}
+                  loading={isSavingStorage}
+                >
+                  Save Storage Settings
+                </Button>
+              </Stack>
+            </form>
+          </Stack>
+        </Paper>
+
         {/* Storage Info */}
         <Paper p="lg" withBorder radius="md">
           <Stack gap="md">
@@ -233,7 +489,9 @@ export function Settings() {
                 Storage Information
               </Text>
               <Text size="sm" c="dimmed">
-                Data stored locally in your browser
+                {storageMode === 'server'
+                  ? 'Data stored on the shared server'
+                  : 'Data stored locally in your browser'}
               </Text>
             </div>
 
@@ -242,19 +500,35 @@ export function Settings() {
                 <Text size="xs" c="dimmed">
                   Documents
                 </Text>
-                <Text fw={600}>{storage.getDocuments().length}</Text>
+                <Text fw={600}>{storageInfo?.documents ?? '-'}</Text>
               </div>
               <div>
                 <Text size="xs" c="dimmed">
                   Enhancements
                 </Text>
-                <Text fw={600}>{storage.getHistory().length}</Text>
+                <Text fw={600}>{storageInfo?.enhancements ?? '-'}</Text>
               </div>
               <div>
                 <Text size="xs" c="dimmed">
                   Storage Used
                 </Text>
-                <Text fw={600}>{storageInfo.percentage.toFixed(1)}%</Text>
+                <Text fw={600}>
+                  {storageInfo
+                    ? storageInfo.usage.percentage === null
+                      ? formatBytes(storageInfo.usage.used)
+                      : `${formatBytes(storageInfo.usage.used)} (${storageInfo.usage.percentage.toFixed(1)}%)`
+                    : '-'}
+                </Text>
+              </div>
+              <div>
+                <Text size="xs" c="dimmed">
+                  Available
+                </Text>
+                <Text fw={600}>
+                  {storageInfo?.usage.available != null
+                    ? formatBytes(storageInfo.usage.available)
+                    : '-'}
+                </Text>
               </div>
             </Group>
           </Stack>
@@ -286,3 +560,9 @@ export function Settings() {
     </Container>
   );
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}